@@ -1,8 +1,18 @@
 import { Context, Schema, Logger, h, Session } from 'koishi'
 import { spawn } from 'node:child_process'
+import { createHash } from 'node:crypto'
+import { mkdir, mkdtemp, readdir, readFile, rm, unlink, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
+import { Readable, Transform } from 'node:stream'
+import {} from 'koishi-plugin-puppeteer'
 
 export const name = 'music-to-voice'
 
+export const inject = {
+  optional: ['database', 'puppeteer', 'silk'],
+}
+
 const logger = new Logger('music-to-voice')
 
 type SourceValue =
@@ -11,8 +21,17 @@ type SourceValue =
 
 type BrValue = 128 | 192 | 320 | 740 | 999
 
-type SendMode = 'record' | 'buffer'
-type TranscodeFormat = 'wav' | 'aac' | 'silk'
+type SendMode = 'record' | 'buffer' | 'card'
+
+const SOURCE_VALUES: SourceValue[] = [
+  'netease', 'tencent', 'tidal', 'spotify', 'ytmusic', 'qobuz',
+  'joox', 'deezer', 'migu', 'kugou', 'kuwo', 'ximalaya', 'apple',
+]
+const BR_VALUES: BrValue[] = [128, 192, 320, 740, 999]
+const SEND_MODES: SendMode[] = ['record', 'buffer', 'card']
+const TRANSCODE_FORMATS: TranscodeFormat[] = ['wav', 'aac', 'silk', 'mp3', 'opus']
+type SongInfoPosition = 'off' | 'before' | 'after'
+type TranscodeFormat = 'wav' | 'aac' | 'silk' | 'mp3' | 'opus'
 
 interface SearchItem {
   id?: string | number
@@ -24,6 +43,14 @@ interface SearchItem {
   singer?: string
   url?: string
   pic?: string
+  pic_id?: string | number
+  album?: string | { name?: string }
+  lyric_id?: string | number
+  // 聚合搜索时记录条目来自哪个音源 / 提供方
+  source?: SourceValue
+  provider?: ProviderName
+  // Meting 的歌词接口地址
+  lrc?: string
   duration?: number
   time?: number
 }
@@ -44,6 +71,15 @@ interface UrlResp {
   type?: string
 }
 
+interface PicResp {
+  url?: string
+}
+
+interface LyricResp {
+  lyric?: string
+  tlyric?: string
+}
+
 function toId(x: any): string | undefined {
   if (x === null || x === undefined) return
   const s = String(x).trim()
@@ -58,6 +94,11 @@ function pickArtist(it: any): string {
   return (it?.artist ?? it?.author ?? it?.singer ?? '').toString()
 }
 
+function pickAlbum(it: any): string {
+  const a = it?.album
+  return (typeof a === 'object' ? a?.name ?? '' : a ?? '').toString()
+}
+
 function pickDurationSec(it: any): number | undefined {
   const d = it?.duration ?? it?.time
   if (d === null || d === undefined) return
@@ -89,7 +130,7 @@ async function sleep(ms: number) {
   await new Promise<void>(r => setTimeout(r, ms))
 }
 
-async function httpGetJson(ctx: Context, url: string, cfg: Config) {
+async function httpGet(ctx: Context, url: string, cfg: Config, responseType: 'json' | 'text') {
   // 统一：带 UA、超时、重试
   const headers: Record<string, string> = {
     'user-agent': cfg.userAgent || 'koishi-music-to-voice/1.0',
@@ -104,7 +145,7 @@ async function httpGetJson(ctx: Context, url: string, cfg: Config) {
       const res = await ctx.http.get(url, {
         timeout: cfg.requestTimeoutMs,
         headers,
-        responseType: 'json',
+        responseType,
       })
       // 某些 http 客户端返回的是完整响应对象（含 data），有些直接返回解析后的 body。
       // 统一返回响应主体优先（如果存在 data 字段就返回 data）。
@@ -120,86 +161,136 @@ async function httpGetJson(ctx: Context, url: string, cfg: Config) {
   throw lastErr
 }
 
-async function httpGetBuffer(ctx: Context, url: string, cfg: Config): Promise<Buffer> {
+async function httpGetJson(ctx: Context, url: string, cfg: Config) {
+  return await httpGet(ctx, url, cfg, 'json')
+}
+
+async function httpGetText(ctx: Context, url: string, cfg: Config): Promise<string> {
+  const res = await httpGet(ctx, url, cfg, 'text')
+  return typeof res === 'string' ? res : JSON.stringify(res)
+}
+
+// 流式音频输入：下载响应直接写入 ffmpeg stdin，不在内存中保留整个文件
+interface AudioStream {
+  url: string
+  // 每次调用都会重新发起下载（转码回退时需要重新读取）
+  open(signal: AbortSignal): Promise<Readable>
+}
+
+type FfmpegInput = Buffer | AudioStream
+
+// 下载超过 maxDownloadMB：size 为 Content-Length，未知时为中止前已接收的字节数
+class DownloadTooLargeError extends Error {
+  constructor(public size: number, public limitMB: number) {
+    super(`download too large: ${size} bytes (limit ${limitMB}MB)`)
+  }
+}
+
+function httpStream(ctx: Context, url: string, cfg: Config): AudioStream {
   const headers: Record<string, string> = {
     'user-agent': cfg.userAgent || 'koishi-music-to-voice/1.0',
     'accept': '*/*',
   }
+  const cap = cfg.maxDownloadMB * 1024 * 1024
 
-  const retry = Math.max(0, cfg.requestRetry)
-  let lastErr: any
-
-  for (let i = 0; i <= retry; i++) {
-    try {
-  logger.info(`downloading url: ${url} (attempt ${i + 1}/${retry + 1})`)
-      const res = await ctx.http.get<any>(url, {
-        timeout: cfg.requestTimeoutMs,
-        headers,
-        responseType: 'arraybuffer',
-      })
-      // 兼容适配器：有的直接返回 ArrayBuffer，有的返回 { data, headers }
-      const arr = (res?.data ?? res) as ArrayBuffer
-      const buf = Buffer.from(arr)
-
-      // 尝试读取 headers
-      const contentType = (res?.headers && (res.headers['content-type'] || res.headers['Content-Type'])) || ''
-      const contentLengthHeader = (res?.headers && (res.headers['content-length'] || res.headers['Content-Length'])) || ''
-  logger.info(`downloaded ${buf.length} bytes from ${url} content-type=${contentType} content-length=${contentLengthHeader}`)
-      return buf
-    } catch (e: any) {
-      lastErr = e
-      logger.warn(`download attempt ${i + 1} failed for ${url}: ${e?.message || e}`)
-      if (i < retry) await sleep(250 + i * 250)
+  async function request(signal: AbortSignal) {
+    const retry = Math.max(0, cfg.requestRetry)
+    let lastErr: any
+    // 只在建立连接阶段重试；开始传输后出错直接交给 ffmpeg 失败处理
+    for (let i = 0; i <= retry; i++) {
+      try {
+        logger.info(`downloading url: ${url} (attempt ${i + 1}/${retry + 1})`)
+        return await ctx.http(url, { method: 'GET', headers, responseType: 'stream', signal })
+      } catch (e: any) {
+        lastErr = e
+        if (signal.aborted) break
+        logger.warn(`download attempt ${i + 1} failed for ${url}: ${e?.message || e}`)
+        if (i < retry) await sleep(250 + i * 250)
+      }
     }
+    throw lastErr
   }
 
-  throw lastErr
+  return {
+    url,
+    async open(signal) {
+      const res = await request(signal)
+      const length = Number(res.headers.get('content-length')) || 0
+      logger.info(`streaming ${url} content-type=${res.headers.get('content-type') || ''} content-length=${length || 'unknown'}`)
+      // 有 Content-Length 时提前拒绝，否则边传边计数
+      if (cap > 0 && length > cap) {
+        await res.data.cancel().catch(() => {})
+        throw new DownloadTooLargeError(length, cfg.maxDownloadMB)
+      }
+      const body = Readable.fromWeb(res.data as any)
+      let received = 0
+      const limiter = new Transform({
+        transform(chunk: Buffer, _, callback) {
+          received += chunk.length
+          if (cap > 0 && received > cap) return callback(new DownloadTooLargeError(received, cfg.maxDownloadMB))
+          callback(null, chunk)
+        },
+      })
+      body.on('error', e => limiter.destroy(e))
+      limiter.on('error', () => body.destroy())
+      return body.pipe(limiter)
+    },
+  }
 }
 
-async function ffmpegToWavBuffer(input: Buffer, cfg: Config): Promise<Buffer> {
-  // 转成 NapCat 最稳的：24000Hz / mono / s16 wav
-  // 用 pipe 避免写文件
-  const args = [
-    '-hide_banner',
-    '-loglevel', 'error',
-    '-i', 'pipe:0',
-    '-ac', '1',
-    '-ar', '24000',
-    '-f', 'wav',
-    'pipe:1',
-  ]
-
+async function runFfmpeg(input: FfmpegInput, args: string[], cfg: Config, label: string, expectOutput = true): Promise<Buffer> {
   const bin = cfg.ffmpegBin || 'ffmpeg'
+  const streaming = !Buffer.isBuffer(input)
 
   return await new Promise<Buffer>((resolve, reject) => {
     const p = spawn(bin, args, { stdio: ['pipe', 'pipe', 'pipe'] })
+    // 流式输入时用于中止下载
+    const controller = new AbortController()
 
     const chunks: Buffer[] = []
     const errChunks: Buffer[] = []
 
-    const killTimer = setTimeout(() => {
+    // 结束子进程：先 SIGTERM，未退出再 SIGKILL
+    const kill = () => {
+      if (p.exitCode !== null || p.signalCode !== null) return
       try { p.kill() } catch {}
-      reject(new Error('ffmpeg timeout'))
-    }, Math.max(3000, cfg.ffmpegTimeoutMs))
+      setTimeout(() => {
+        if (p.exitCode === null && p.signalCode === null) try { p.kill('SIGKILL') } catch {}
+      }, 2000).unref()
+    }
+
+    const fail = (e: Error) => {
+      clearTimeout(killTimer)
+      controller.abort()
+      kill()
+      reject(e)
+    }
+
+    // 流式输入时超时同时覆盖下载与转码
+    const timeoutMs = Math.max(3000, cfg.ffmpegTimeoutMs) + (streaming ? cfg.requestTimeoutMs : 0)
+    const killTimer = setTimeout(() => fail(new Error('ffmpeg timeout')), timeoutMs)
 
     p.stdout.on('data', (d: Buffer) => chunks.push(d))
     p.stderr.on('data', (d: Buffer) => errChunks.push(d))
+    // ffmpeg 提前退出时写 stdin 会 EPIPE，交给 close 事件处理
+    p.stdin.on('error', () => {})
 
-    p.on('error', (e) => {
-      clearTimeout(killTimer)
-      reject(e)
-    })
+    p.on('error', fail)
 
     p.on('close', (code) => {
       clearTimeout(killTimer)
+      // 已因超时 / 下载失败结束，不再重复处理
+      if (controller.signal.aborted) return
+      // ffmpeg 提前结束（例如 -t 截取完成）时不再继续下载
+      controller.abort()
       if (code === 0) {
         const out = Buffer.concat(chunks)
-        if (!out.length) return reject(new Error('ffmpeg output empty'))
+        if (expectOutput && !out.length) return reject(new Error('ffmpeg output empty'))
         resolve(out)
       } else {
         const stderr = Buffer.concat(errChunks).toString('utf8')
         const msg = stderr || `ffmpeg exit ${code}`
-        logger.warn(`ffmpegToWavBuffer failed: ${msg}`)
+        logger.warn(`${label} failed: ${msg}`)
         const err = new Error(msg)
         // attach stderr for callers
         ;(err as any).stderr = stderr
@@ -207,65 +298,253 @@ async function ffmpegToWavBuffer(input: Buffer, cfg: Config): Promise<Buffer> {
       }
     })
 
-    p.stdin.end(input)
+    if (Buffer.isBuffer(input)) {
+      p.stdin.end(input)
+    } else {
+      input.open(controller.signal).then((source) => {
+        if (controller.signal.aborted) return source.destroy()
+        source.on('error', (e) => {
+          if (!controller.signal.aborted) fail(e)
+        })
+        source.pipe(p.stdin)
+      }, fail)
+    }
   })
 }
 
-async function ffmpegTranscode(input: Buffer, cfg: Config, format: TranscodeFormat, br?: number): Promise<{ buffer: Buffer, mime: string }> {
-  const bin = cfg.ffmpegBin || 'ffmpeg'
+// 截取片段（秒）；length 为空表示截到结尾
+interface ClipRange {
+  start: number
+  length?: number
+  fadeSec?: number
+}
+
+// 转码参数：码率、采样率、截取片段、额外滤镜（音效 / 响度标准化）
+interface TranscodeOptions {
+  br?: number
+  sampleRate?: number
+  clip?: ClipRange
+  filters?: string[]
+}
+
+// 输入参数：-ss 放在 -i 之前，pipe 输入会解码跳过，输出时间戳从 0 开始
+function ffmpegInputArgs(clip?: ClipRange): string[] {
+  const seek = clip && clip.start > 0 ? ['-ss', String(clip.start)] : []
+  return [...seek, '-i', 'pipe:0']
+}
+
+// 输出参数：-t 截断 + 滤镜链（音效 / 响度标准化在前，切点处的淡入淡出在最后）
+function ffmpegFilterArgs(options: TranscodeOptions): string[] {
+  const { clip } = options
+  const args: string[] = []
+  const filters = [...(options.filters || [])]
+  if (clip?.length) args.push('-t', String(clip.length))
+  const fade = clip?.fadeSec ?? 0
+  if (clip && fade > 0 && clip.start > 0) filters.push(`afade=t=in:st=0:d=${fade}`)
+  if (clip?.length && fade > 0 && clip.length > fade * 2) filters.push(`afade=t=out:st=${clip.length - fade}:d=${fade}`)
+  if (filters.length) args.push('-af', filters.join(','))
+  return args
+}
+
+async function ffmpegToWavBuffer(input: FfmpegInput, cfg: Config, options: TranscodeOptions = {}): Promise<Buffer> {
+  // 转成 NapCat 最稳的：24000Hz / mono / s16 wav
+  // 用 pipe 避免写文件
+  const args = [
+    '-hide_banner',
+    '-loglevel', 'error',
+    ...ffmpegInputArgs(options.clip),
+    ...ffmpegFilterArgs(options),
+    '-ac', '1',
+    '-ar', String(options.sampleRate || 24000),
+    '-f', 'wav',
+    'pipe:1',
+  ]
+  return await runFfmpeg(input, args, cfg, 'ffmpegToWavBuffer')
+}
+
+// 用 segment muxer 切成若干段 wav（写入临时目录），再分别转码
+async function ffmpegSegments(input: FfmpegInput, cfg: Config, segmentSec: number, options: TranscodeOptions = {}): Promise<Buffer[]> {
+  const dir = await mkdtemp(join(tmpdir(), 'music-to-voice-'))
+  try {
+    const args = [
+      '-hide_banner',
+      '-loglevel', 'error',
+      ...ffmpegInputArgs(options.clip),
+      '-vn',
+      ...ffmpegFilterArgs(options),
+      '-ac', '1',
+      '-c:a', 'pcm_s16le',
+      '-f', 'segment',
+      '-segment_time', String(segmentSec),
+      '-reset_timestamps', '1',
+      join(dir, 'part%03d.wav'),
+    ]
+    await runFfmpeg(input, args, cfg, 'ffmpegSegments', false)
+    const files = (await readdir(dir)).filter(f => f.endsWith('.wav')).sort()
+    if (!files.length) throw new Error('ffmpeg output empty')
+    return await Promise.all(files.map(f => readFile(join(dir, f))))
+  } finally {
+    await rm(dir, { recursive: true, force: true }).catch(() => {})
+  }
+}
+
+async function ffmpegToPcmBuffer(input: FfmpegInput, cfg: Config, sampleRate: number, options: TranscodeOptions = {}): Promise<Buffer> {
+  // 裸 PCM：mono / s16le，供 silk 编码器使用
+  const args = [
+    '-hide_banner',
+    '-loglevel', 'error',
+    ...ffmpegInputArgs(options.clip),
+    '-vn',
+    ...ffmpegFilterArgs(options),
+    '-ac', '1',
+    '-ar', String(sampleRate),
+    '-f', 's16le',
+    'pipe:1',
+  ]
+  return await runFfmpeg(input, args, cfg, 'ffmpegToPcmBuffer')
+}
+
+// koishi-plugin-silk 提供的 silk 服务（可选）
+interface SilkService {
+  encode(input: ArrayBufferView | ArrayBuffer, sampleRate: number): Promise<{ data: Uint8Array, duration: number }>
+}
+
+declare module 'koishi' {
+  interface Context {
+    silk?: SilkService
+  }
+}
+
+const SILK_SAMPLE_RATE = 24000
+
+async function resolveSilkEncoder(ctx: Context): Promise<{ name: string, encoder: SilkService } | undefined> {
+  // 优先使用 silk 服务，否则使用内置的 silk-wasm
+  if (ctx.silk && typeof ctx.silk.encode === 'function') {
+    return { name: 'silk service', encoder: ctx.silk }
+  }
+  try {
+    const mod = await import('silk-wasm')
+    return { name: 'silk-wasm', encoder: mod }
+  } catch (e: any) {
+    logger.warn(`silk-wasm load failed: ${e?.message || e}`)
+  }
+}
+
+async function encodeSilk(ctx: Context, input: FfmpegInput, cfg: Config, options: TranscodeOptions = {}): Promise<Buffer> {
+  const silk = await resolveSilkEncoder(ctx)
+  if (!silk) throw new Error('silk encoder not available')
+  const pcm = await ffmpegToPcmBuffer(input, cfg, SILK_SAMPLE_RATE, options)
+  const { data, duration } = await silk.encoder.encode(pcm, SILK_SAMPLE_RATE)
+  if (!data?.length) throw new Error('silk output empty')
+  if (cfg.debug) logger.info(`silk encoded by ${silk.name}: ${data.length} bytes, ${duration}ms`)
+  return Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+}
+
+function sampleRateArgs(options: TranscodeOptions): string[] {
+  return options.sampleRate ? ['-ar', String(options.sampleRate)] : []
+}
 
+async function ffmpegTranscode(ctx: Context, input: FfmpegInput, cfg: Config, format: TranscodeFormat, options: TranscodeOptions = {}): Promise<{ buffer: Buffer, mime: string }> {
+  const { br } = options
   if (format === 'aac') {
     // 生成 ADTS AAC，NapCat/QQ 在 128k/192k AAC 下通常兼容
     const bitrate = (br && br <= 192 && br >= 64) ? `${br}k` : '128k'
     const args = [
       '-hide_banner', '-loglevel', 'error',
-      '-i', 'pipe:0',
+      ...ffmpegInputArgs(options.clip),
       '-vn',
+      ...ffmpegFilterArgs(options),
       '-c:a', 'aac',
       '-b:a', bitrate,
+      ...sampleRateArgs(options),
       '-f', 'adts',
       'pipe:1',
     ]
+    const out = await runFfmpeg(input, args, cfg, 'ffmpegTranscode(aac)')
+    return { buffer: out, mime: 'audio/aac' }
+  }
 
-    return await new Promise<{ buffer: Buffer, mime: string }>((resolve, reject) => {
-      const p = spawn(bin, args, { stdio: ['pipe', 'pipe', 'pipe'] })
-      const chunks: Buffer[] = []
-      const errChunks: Buffer[] = []
-      const killTimer = setTimeout(() => { try { p.kill() } catch {} ; reject(new Error('ffmpeg timeout')) }, Math.max(3000, cfg.ffmpegTimeoutMs))
-      p.stdout.on('data', (d: Buffer) => chunks.push(d))
-      p.stderr.on('data', (d: Buffer) => errChunks.push(d))
-      p.on('error', (e) => { clearTimeout(killTimer); reject(e) })
-      p.on('close', (code) => {
-        clearTimeout(killTimer)
-        if (code === 0) {
-          const out = Buffer.concat(chunks)
-          if (!out.length) return reject(new Error('ffmpeg output empty'))
-          resolve({ buffer: out, mime: 'audio/aac' })
-        } else {
-            const stderr = Buffer.concat(errChunks).toString('utf8')
-            const msg = stderr || `ffmpeg exit ${code}`
-            logger.warn(`ffmpegTranscode(aac) failed: ${msg}`)
-            const err = new Error(msg)
-            ;(err as any).stderr = stderr
-            reject(err)
-        }
-      })
-      p.stdin.end(input)
-    })
+  if (format === 'mp3') {
+    const bitrate = (br && br <= 320 && br >= 64) ? `${br}k` : '192k'
+    const args = [
+      '-hide_banner', '-loglevel', 'error',
+      ...ffmpegInputArgs(options.clip),
+      '-vn',
+      ...ffmpegFilterArgs(options),
+      '-c:a', 'libmp3lame',
+      '-b:a', bitrate,
+      ...sampleRateArgs(options),
+      '-f', 'mp3',
+      'pipe:1',
+    ]
+    const out = await runFfmpeg(input, args, cfg, 'ffmpegTranscode(mp3)')
+    return { buffer: out, mime: 'audio/mpeg' }
   }
 
-  if (format === 'wav') {
-    // delegate to existing wav pipeline
-    const buf = await ffmpegToWavBuffer(input, cfg)
-    return { buffer: buf, mime: 'audio/wav' }
+  if (format === 'opus') {
+    // Telegram 语音要求 ogg 封装的 opus（单声道即可）
+    const args = [
+      '-hide_banner', '-loglevel', 'error',
+      ...ffmpegInputArgs(options.clip),
+      '-vn',
+      ...ffmpegFilterArgs(options),
+      '-ac', '1',
+      '-c:a', 'libopus',
+      '-b:a', '64k',
+      ...sampleRateArgs(options),
+      '-f', 'ogg',
+      'pipe:1',
+    ]
+    const out = await runFfmpeg(input, args, cfg, 'ffmpegTranscode(opus)')
+    return { buffer: out, mime: 'audio/ogg' }
+  }
+
+  if (format === 'silk') {
+    // ffmpeg 解码为 24kHz mono PCM → silk 编码
+    const out = await encodeSilk(ctx, input, cfg, options)
+    return { buffer: out, mime: 'audio/silk' }
   }
 
-  // silk: 如果没有独立的 silk 编码器，回退到 wav（并在日志中提示）
-  logger.warn('transcodeFormat silk selected but silk encoding is not implemented; falling back to wav')
-  const buf = await ffmpegToWavBuffer(input, cfg)
+  // delegate to existing wav pipeline
+  const buf = await ffmpegToWavBuffer(input, cfg, options)
   return { buffer: buf, mime: 'audio/wav' }
 }
 
+function transcodeChain(cfg: Config): TranscodeFormat[] {
+  // 首选格式 + 回退链（去重，保持顺序）
+  const chain: TranscodeFormat[] = [cfg.transcodeFormat, ...(cfg.transcodeFallback || [])]
+  return chain.filter((f, i) => chain.indexOf(f) === i)
+}
+
+async function transcodeWithFallback(ctx: Context, input: FfmpegInput, cfg: Config, options: TranscodeOptions = {}): Promise<{ buffer: Buffer, mime: string }> {
+  let lastErr: any
+  for (const format of transcodeChain(cfg)) {
+    try {
+      const out = await ffmpegTranscode(ctx, input, cfg, format, options)
+      logger.info(`transcode succeeded, format=${format}, mime=${out.mime}, bytes=${out.buffer.length}`)
+      return out
+    } catch (e: any) {
+      // 下载超限与格式无关，换格式重试只会再下载一遍
+      if (e instanceof DownloadTooLargeError) throw e
+      lastErr = e
+      logger.warn(`transcode(${format}) failed: ${e?.message || e}`)
+      if ((e as any)?.stderr) logger.warn(`ffmpeg stderr: ${(e as any).stderr}`)
+    }
+  }
+  throw lastErr ?? new Error('no transcode format available')
+}
+
+// 转码并按 splitSegmentSec 分段；未开启分段时只有一段
+async function transcodeParts(ctx: Context, input: FfmpegInput, cfg: Config, options: TranscodeOptions = {}): Promise<{ buffer: Buffer, mime: string }[]> {
+  if (!(cfg.splitSegmentSec > 0)) return [await transcodeWithFallback(ctx, input, cfg, options)]
+  const segments = await ffmpegSegments(input, cfg, cfg.splitSegmentSec, options)
+  logger.info(`split into ${segments.length} segment(s) of ${cfg.splitSegmentSec}s`)
+  const parts: { buffer: Buffer, mime: string }[] = []
+  // 片段截取与滤镜已在切分时完成，这里只做编码
+  for (const seg of segments) parts.push(await transcodeWithFallback(ctx, seg, cfg, { br: options.br, sampleRate: options.sampleRate }))
+  return parts
+}
+
 async function checkFfmpegAvailable(bin: string, timeoutMs: number): Promise<boolean> {
   return await new Promise<boolean>((resolve) => {
     try {
@@ -326,19 +605,32 @@ export interface Config {
   // 基础
   command: string
   alias: string[]
-  apiBase: string
+  apiBase: string[]
+  providers: ProviderName[]
+  neteaseApiBase: string
+  metingApiBase: string
 
   // 文案
   generationTip: string
+  queuedTip: string
   promptTimeoutSec: number
+  selectionRetries: number
   promptTimeout: string
   exitPrompt: string
   invalidNumber: string
+  numberOutOfRange: string
+  selectionRetryPrompt: string
   durationExceeded: string
+  sizeExceeded: string
   getSongFailed: string
+  fallbackNotice: string
 
   // 搜索/歌单
   searchCount: number
+  localPaging: boolean
+  pageSize: number
+  searchCacheTtlSec: number
+  shareLinkDetect: boolean
   menuAsImage: boolean
   nextPageCmd: string
   prevPageCmd: string
@@ -347,13 +639,36 @@ export interface Config {
   // 是否允许群内其他人选择点歌（默认 false，仅原请求人可选择）
   allowGroupSelect: boolean
   maxSongDurationMin: number
+  // 搜索结果没有时长时用 ffprobe 读取
+  probeDuration: boolean
+  // 下载音频的大小上限（MB）：下载前用 HEAD/Range 预检，下载中超出立即中止
+  maxDownloadMB: number
 
   // 请求
   source: SourceValue
+  sources: SourceValue[]
+  fallbackSources: SourceValue[]
+  fallbackMatchThreshold: number
+  fallbackDurationToleranceSec: number
   br: BrValue
   requestTimeoutMs: number
   requestRetry: number
   userAgent: string
+  mirrorStrategy: 'order' | 'round-robin'
+  mirrorFailThreshold: number
+  mirrorCooldownSec: number
+  mirrorProbeIntervalSec: number
+
+  // 歌曲信息卡片
+  songInfo: SongInfoPosition
+  songInfoCover: boolean
+  coverSize: number
+
+  // 歌词
+  sendLyric: boolean
+  lyricTranslation: boolean
+  lyricForwardThreshold: number
+  lyricNotFound: string
 
   // 发送
   sendMode: SendMode
@@ -361,25 +676,80 @@ export interface Config {
   // 转码格式：
   // - wav: 输出 24000Hz mono s16 wav（兼容 NapCat 的某些实现，但体积较大）
   // - aac: 输出 ADTS AAC（体积小，NapCat/QQ 在 128k/192k AAC 下通常可直接播放）
-  // - silk: silk 格式（需要 silk 编码器支持，当前若选择会回退为 wav）
+  // - silk: ffmpeg 解码为 24kHz PCM 后用 silk 服务或内置 silk-wasm 编码（QQ 原生语音，体积最小）
+  // - mp3: libmp3lame（Discord / Kook 等通用音频）
+  // - opus: ogg/opus（Telegram 语音）
   transcodeFormat: TranscodeFormat
+  // 首选格式失败后依次尝试的格式
+  transcodeFallback: TranscodeFormat[]
+  // 语音最长秒数，超出则截断（0=不截断，沿用 maxSongDurationMin 拒绝）
+  maxVoiceSec: number
+  // 截取片段时切点的淡入淡出（秒）
+  clipFadeSec: number
+  // 按秒数把语音切成多段依次发送（0=不切分）
+  splitSegmentSec: number
   ffmpegBin: string
+  ffprobeBin: string
   ffmpegTimeoutMs: number
+  // 同时进行的转码任务数
+  maxConcurrentTranscodes: number
+  // 以文件发送时的大小上限（MB）
+  fileMaxMB: number
 
   // 启动时检测 ffmpeg（可禁用）
   checkFfmpegOnStart: boolean
 
+  // 按平台选择的输出配置
+  platformProfiles: OutputProfile[]
+
+  // 音效与响度
+  loudnorm: boolean
+  loudnormTarget: number
+  effectPresets: EffectPreset[]
+  // 允许通过 -e 选择的音效
+  effectAllowlist: string[]
+
+  // 音频缓存
+  cacheEnabled: boolean
+  cacheMaxMB: number
+  cacheTtlHours: number
+
+  // 播放队列
+  queueMaxSize: number
+  queueGapSec: number
+  queueAnnounce: boolean
+
   // 撤回
-  recallMessages: ('generationTip' | 'songList')[]
+  recallMessages: ('generationTip' | 'songList' | 'songInfo' | 'voice')[]
   tipRecallSec: number
+  infoRecallSec: number
+  voiceRecallSec: number
   menuRecallSec: number
   recallOnlyAfterSuccess: boolean
   keepMenuIfSendFailed: boolean
 
+  // 群/频道设置指令所需权限
+  settingsAuthority: number
+
+  // 指令选项权限
+  optionAuthority: {
+    source: number
+    br: number
+    mode: number
+    format: number
+    effect: number
+  }
+
   // 调试
   debug: boolean
 }
 
+const ProviderSchema = Schema.union([
+  Schema.const('gd').description('GD 音乐台 API'),
+  Schema.const('netease').description('NeteaseCloudMusicApi（自建）'),
+  Schema.const('meting').description('Meting API（自建）'),
+]) as unknown as Schema<ProviderName>
+
 const SourceSchema = Schema.union([
   Schema.const('netease').description('网易云（netease）'),
   Schema.const('tencent').description('QQ音乐（tencent）'),
@@ -404,14 +774,71 @@ const BrSchema = Schema.union([
   Schema.const(999).description(brLabel(999)),
 ]) as unknown as Schema<BrValue>
 
+interface OutputProfile {
+  platform: string
+  sendMode: SendMode
+  transcodeFormat: TranscodeFormat
+  sampleRate: number
+  maxSizeMB: number
+}
+
+const DEFAULT_OUTPUT_PROFILES: OutputProfile[] = [
+  { platform: 'onebot', sendMode: 'record', transcodeFormat: 'aac', sampleRate: 0, maxSizeMB: 0 },
+  { platform: 'qq', sendMode: 'buffer', transcodeFormat: 'silk', sampleRate: 0, maxSizeMB: 10 },
+  { platform: 'telegram', sendMode: 'buffer', transcodeFormat: 'opus', sampleRate: 48000, maxSizeMB: 50 },
+  { platform: 'discord', sendMode: 'buffer', transcodeFormat: 'mp3', sampleRate: 44100, maxSizeMB: 25 },
+  { platform: 'kook', sendMode: 'buffer', transcodeFormat: 'mp3', sampleRate: 44100, maxSizeMB: 20 },
+]
+
+function platformProfile(cfg: Config, platform?: string): OutputProfile | undefined {
+  return (cfg.platformProfiles || []).find(p => p.platform === platform)
+}
+
+// 按 session.platform 套用输出配置：匹配到的平台用其发送方式 / 转码格式替换全局设置
+function applyProfile(cfg: Config, platform?: string): Config {
+  const profile = platformProfile(cfg, platform)
+  if (!profile) return cfg
+  return { ...cfg, sendMode: profile.sendMode, transcodeFormat: profile.transcodeFormat }
+}
+
 const SendModeSchema = Schema.union([
   Schema.const('record').description('语音 record（直链，快，但高码率 wma 可能失败）'),
   Schema.const('buffer').description('语音 buffer（更稳，但更耗流量/时间）'),
+  Schema.const('card').description('音乐卡片（仅 OneBot，可点击并显示封面；不支持时自动改发语音）'),
 ]) as unknown as Schema<SendMode>
 
+const SongInfoPositionSchema = Schema.union([
+  Schema.const('off').description('不发送'),
+  Schema.const('before').description('语音之前发送'),
+  Schema.const('after').description('语音之后发送'),
+]) as unknown as Schema<SongInfoPosition>
+
+const TranscodeFormatSchema = Schema.union([
+  Schema.const('wav').description('wav（24kHz mono，体积较大）'),
+  Schema.const('aac').description('aac（ADTS，体积小）'),
+  Schema.const('silk').description('silk（QQ 原生语音）'),
+  Schema.const('mp3').description('mp3（通用）'),
+  Schema.const('opus').description('ogg/opus（Telegram 语音）'),
+]) as unknown as Schema<TranscodeFormat>
+
+interface EffectPreset {
+  name: string
+  filter: string
+  description: string
+}
+
+const DEFAULT_EFFECT_PRESETS: EffectPreset[] = [
+  { name: 'nightcore', description: '加速升调', filter: 'aresample=44100,asetrate=55125,aresample=44100' },
+  { name: 'slowed', description: '降速 + 混响', filter: 'aresample=44100,asetrate=37485,aresample=44100,aecho=0.8:0.88:60:0.4' },
+  { name: 'bassboost', description: '低音增强', filter: 'bass=g=10:f=110' },
+  { name: '8d', description: '环绕（仅 aac 等立体声输出有效）', filter: 'apulsator=hz=0.125' },
+]
+
 const RecallKeySchema = Schema.union([
   Schema.const('generationTip').description('“生成中”提示消息'),
   Schema.const('songList').description('歌单消息'),
+  Schema.const('songInfo').description('歌曲信息卡片'),
+  Schema.const('voice').description('语音（含分段标记）'),
 ])
 
 export const Config: Schema<Config> = Schema.intersect([
@@ -419,22 +846,41 @@ export const Config: Schema<Config> = Schema.intersect([
     command: Schema.string().default('music').description('使用的指令名称'),
     alias: Schema.array(String).default(['听歌']).description('使用的指令别名（可多个）'),
 
-    apiBase: Schema.string().default('https://music-api.gdstudio.xyz/api.php')
-      .description('GD 音乐台 API 地址（如：https://music-api.gdstudio.xyz/api.php）'),
+    apiBase: Schema.union([
+      Schema.array(String),
+      Schema.transform(String, (v: string) => [v]),
+    ]).default(['https://music-api.gdstudio.xyz/api.php'])
+      .description('GD 音乐台 API 地址，可填写多个镜像（如：https://music-api.gdstudio.xyz/api.php）'),
+    providers: Schema.array(ProviderSchema).default(['gd'])
+      .description('数据提供方（按顺序尝试；未填写地址的提供方会被跳过）'),
+    neteaseApiBase: Schema.string().default('')
+      .description('NeteaseCloudMusicApi 兼容接口地址（如：http://127.0.0.1:3000，仅支持网易云音源）'),
+    metingApiBase: Schema.string().default('')
+      .description('Meting 兼容接口地址（如：https://api.example.com/meting/，支持网易云/QQ/酷狗/酷我）'),
   }).description('基础设置'),
 
   Schema.object({
     generationTip: Schema.string().default('生成语音中…').description('生成语音时返回的提示文字'),
+    queuedTip: Schema.string().default('排队中，第 {position} 位…').description('转码繁忙需要排队时的提示（{position} 为排队位置）'),
     promptTimeoutSec: Schema.number().default(45).description('等待用户输入序号的最长时间（秒）'),
+    selectionRetries: Schema.natural().default(2).description('选择无法识别时允许重新输入的次数（0=直接退出）'),
     promptTimeout: Schema.string().default('输入超时，已取消点歌。').description('超时提示'),
     exitPrompt: Schema.string().default('已退出歌曲选择。').description('退出提示'),
     invalidNumber: Schema.string().default('序号输入错误，已退出歌曲选择。').description('序号错误提示'),
-    durationExceeded: Schema.string().default('歌曲时长超出限制，已取消发送。').description('时长超限提示'),
+    numberOutOfRange: Schema.string().default('没有第 {n} 首，当前歌单共 {max} 首。').description('“+序号”等超出歌单范围时的提示（不退出选择；{n} 为输入的序号，{max} 为当前歌单数量）'),
+    selectionRetryPrompt: Schema.string().default('没有找到对应的歌曲，请重新输入序号或歌名（还可重试 {left} 次）。').description('选择无法识别时的重新提示（{left} 为剩余次数）'),
+    durationExceeded: Schema.string().default('歌曲时长 {duration} 超出限制（最长 {limit} 分钟），已取消发送。').description('时长超限提示（{duration} 为歌曲时长，{limit} 为上限分钟数）'),
+    sizeExceeded: Schema.string().default('音频文件过大（{size}MB，上限 {limit}MB），已取消发送。').description('文件大小超限提示（{size} 为文件大小，{limit} 为上限）'),
     getSongFailed: Schema.string().default('获取歌曲失败，请稍后再试。').description('获取失败提示'),
+    fallbackNotice: Schema.string().default('原音源无法播放，已从 {source} 获取。').description('切换备用音源提示（{source} 为音源名）'),
   }).description('文案设置'),
 
   Schema.object({
-    searchCount: Schema.number().min(1).max(50).default(20).description('搜索的歌曲列表数量'),
+    searchCount: Schema.number().min(1).max(50).default(20).description('搜索的歌曲列表数量（本地分页时为一次拉取的总数）'),
+    localPaging: Schema.boolean().default(false).description('一次拉取全部结果并在本地分页（翻页无需再请求）'),
+    pageSize: Schema.number().min(1).max(50).default(10).description('本地分页时每页显示的数量'),
+    searchCacheTtlSec: Schema.number().min(0).default(300).description('搜索结果缓存时间（秒，0=不缓存）'),
+    shareLinkDetect: Schema.boolean().default(true).description('关键词为分享链接时直接点歌（跳过歌单）'),
     menuAsImage: Schema.boolean().default(false)
       .description('开启后返回图片歌单（需要 puppeteer 服务；未安装则自动回退文本）'),
     nextPageCmd: Schema.string().default('下一页').description('翻页指令-下一页'),
@@ -443,39 +889,127 @@ export const Config: Schema<Config> = Schema.intersect([
     showExitHint: Schema.boolean().default(true).description('是否在歌单末尾展示退出提示'),
   allowGroupSelect: Schema.boolean().default(false).description('是否允许群内其他人选择点歌（false 则仅原请求人可选择）'),
     maxSongDurationMin: Schema.number().min(0).default(30).description('歌曲最长时长（分钟，0=不限制）'),
+    probeDuration: Schema.boolean().default(true).description('搜索结果缺少时长时用 ffprobe 读取真实时长'),
+    maxDownloadMB: Schema.number().min(0).default(200).description('下载音频的大小上限（MB；需要下载转码时先通过 HEAD/Range 请求检查，下载中超出也会立即中止；0=不限制）'),
   }).description('歌单设置'),
 
   Schema.object({
     source: SourceSchema.default('netease')
       .description('音乐源（部分可能失效，建议使用稳定音乐源）'),
+    sources: Schema.array(SourceSchema).default([])
+      .description('聚合搜索音源（并行搜索并按“歌名+歌手”去重；排在前面的优先级更高；留空则只用上方音乐源）'),
+    fallbackSources: Schema.array(SourceSchema).default([])
+      .description('无法获取直链时依次尝试的备用音源（按顺序搜索同名歌曲）'),
+    fallbackMatchThreshold: Schema.number().min(0).max(1).step(0.05).default(0.6)
+      .description('备用音源匹配的最低相似度（歌名/歌手，0~1）'),
+    fallbackDurationToleranceSec: Schema.number().min(0).default(10)
+      .description('备用音源匹配允许的时长误差（秒）'),
     br: BrSchema.default(999)
       .description('音质 br（740/999 无损；高码率可能返回 wma，建议开启强制转码或改用 192/128）'),
     userAgent: Schema.string().default('koishi-music-to-voice/1.0').description('请求 UA（部分站点会风控/403）'),
     requestTimeoutMs: Schema.number().min(1000).default(15000).description('请求超时（毫秒）'),
     requestRetry: Schema.number().min(0).max(5).default(1).description('请求失败重试次数'),
+    mirrorStrategy: Schema.union([
+      Schema.const('order').description('按顺序（主镜像优先）'),
+      Schema.const('round-robin').description('轮询'),
+    ]).default('order').description('多个 API 镜像的使用方式'),
+    mirrorFailThreshold: Schema.number().min(1).default(3).description('镜像连续失败多少次后暂停使用'),
+    mirrorCooldownSec: Schema.number().min(1).default(120).description('镜像暂停使用的冷却时间（秒）'),
+    mirrorProbeIntervalSec: Schema.number().min(0).default(30).description('后台探测冷却中镜像的间隔（秒，0=不探测）'),
   }).description('请求设置'),
 
   Schema.object({
-    sendMode: SendModeSchema.default('record').description('发送类型'),
+    songInfo: SongInfoPositionSchema.default('off').description('发送歌曲信息卡片（标题/歌手/专辑/时长/音质/音源）'),
+    songInfoCover: Schema.boolean().default(true).description('信息卡片附带专辑封面'),
+    coverSize: Schema.number().min(100).max(1000).default(300).description('封面尺寸（GD API pic 接口 size 参数，常用 300/500）'),
+  }).description('歌曲信息设置'),
+
+  Schema.object({
+    sendLyric: Schema.boolean().default(false).description('点歌后同时发送歌词（也可在指令中使用 -l 选项）'),
+    lyricTranslation: Schema.boolean().default(true).description('有翻译歌词时附带翻译'),
+    lyricForwardThreshold: Schema.number().min(0).default(600)
+      .description('歌词超过该字数时以合并转发发送（0=始终直接发送）'),
+    lyricNotFound: Schema.string().default('没有找到歌词。').description('无歌词提示'),
+  }).description('歌词设置'),
+
+  Schema.object({
+    sendMode: SendModeSchema.default('record')
+      .description('发送类型（未匹配下方平台输出配置时使用；音乐卡片仅 OneBot 可用，需要时把平台输出配置中 onebot 的发送方式改为 card）'),
     forceTranscode: Schema.boolean().default(false)
       .description('强制转码（下载→ffmpeg→wav→buffer；开启后建议选择 buffer 发送）'),
-    transcodeFormat: Schema.union(['wav', 'aac', 'silk'] as const).default('aac')
-      .description('转码目标格式（aac 推荐用于 QQ/NapCat）'),
+    transcodeFormat: TranscodeFormatSchema.default('aac')
+      .description('转码目标格式（aac 推荐用于 QQ/NapCat；silk 为 QQ 原生语音格式；未匹配下方平台输出配置时使用）'),
+    transcodeFallback: Schema.array(TranscodeFormatSchema).default(['aac', 'wav'])
+      .description('转码失败时依次尝试的格式（按顺序，例如 silk 失败 → aac → wav）'),
+    maxVoiceSec: Schema.number().min(0).default(0).description('语音最长时长（秒），超出部分截掉而不是拒绝发送（0=不截断）'),
+    clipFadeSec: Schema.number().min(0).max(10).default(2).description('截取片段时切点处的淡入淡出时长（秒，0=不淡入淡出）'),
+    splitSegmentSec: Schema.number().min(0).default(0).description('长歌曲按该秒数切成多段语音依次发送（0=不切分；适用于限制语音时长/大小的平台）'),
     ffmpegBin: Schema.string().default('ffmpeg').description('ffmpeg 可执行文件（容器一般为 ffmpeg 或 /usr/bin/ffmpeg）'),
-      ffmpegTimeoutMs: Schema.number().min(1000).default(20000).description('ffmpeg 转码超时（毫秒）'),
+    ffprobeBin: Schema.string().default('ffprobe').description('ffprobe 可执行文件（用于读取缺失的歌曲时长）'),
+      ffmpegTimeoutMs: Schema.number().min(1000).default(20000).description('ffmpeg 转码超时（毫秒；边下载边转码时另加请求超时）'),
+      maxConcurrentTranscodes: Schema.number().min(1).max(16).default(2).description('同时进行的转码任务数（超出排队，各频道轮流；同一首歌的请求合并）'),
+      fileMaxMB: Schema.number().min(0).default(50).description('以音频文件发送时的大小上限（MB，超出改发语音；0=不限制）'),
       checkFfmpegOnStart: Schema.boolean().default(true).description('启动时检测 ffmpeg 是否可用（可禁用）'),
   }).description('进阶设置'),
 
+  Schema.object({
+    platformProfiles: Schema.array(Schema.object({
+      platform: Schema.string().required().description('平台（session.platform）'),
+      sendMode: SendModeSchema.default('buffer').description('发送方式'),
+      transcodeFormat: TranscodeFormatSchema.default('aac').description('转码格式'),
+      sampleRate: Schema.natural().default(0).description('采样率（0=格式默认）'),
+      maxSizeMB: Schema.number().min(0).default(0).description('单条语音大小上限（MB，0=不限制）'),
+    })).role('table').default(DEFAULT_OUTPUT_PROFILES)
+      .description('各平台的输出配置：匹配到的平台使用这里的发送方式 / 转码格式 / 采样率 / 大小上限，替换上面的全局设置（群/频道设置与指令选项仍优先）'),
+  }).description('平台输出设置'),
+
+  Schema.object({
+    cacheEnabled: Schema.boolean().default(true).description('缓存转码后的音频（保存在 data/music-to-voice/cache）'),
+    cacheMaxMB: Schema.number().min(1).default(512).description('缓存总大小上限（MB，超出按最近最少使用淘汰）'),
+    cacheTtlHours: Schema.number().min(0).default(72).description('缓存有效期（小时，0=不过期；上游音质/链接会变化）'),
+  }).description('缓存设置'),
+
+  Schema.object({
+    loudnorm: Schema.boolean().default(false).description('响度标准化（EBU R128 loudnorm，使不同音源音量一致；需要转码）'),
+    loudnormTarget: Schema.number().min(-70).max(-5).default(-16).description('目标响度（LUFS）'),
+    effectPresets: Schema.array(Schema.object({
+      name: Schema.string().required().description('名称'),
+      filter: Schema.string().required().description('ffmpeg 音频滤镜链'),
+      description: Schema.string().default('').description('说明'),
+    })).role('table').default(DEFAULT_EFFECT_PRESETS).description('音效预设（ffmpeg -af 滤镜链，可自行添加）'),
+    effectAllowlist: Schema.array(String).role('table').default(DEFAULT_EFFECT_PRESETS.map(p => p.name))
+      .description('允许用户通过 -e 选择的音效名称'),
+  }).description('音效设置'),
+
+  Schema.object({
+    queueMaxSize: Schema.number().min(1).default(20).description('每个频道播放队列的最大长度'),
+    queueGapSec: Schema.number().min(0).default(3).description('队列中两首歌之间的间隔（秒）'),
+    queueAnnounce: Schema.boolean().default(true).description('队列播放每首歌前发送“正在播放”提示'),
+  }).description('播放队列设置'),
+
   Schema.object({
     recallMessages: Schema.array(RecallKeySchema).role('checkbox')
       .default(['generationTip', 'songList'])
       .description('勾选后撤回对应消息（未勾选=不撤回）'),
     tipRecallSec: Schema.number().min(0).default(10).description('“生成中”提示撤回秒数（0=不撤回）'),
+    infoRecallSec: Schema.number().min(0).default(60).description('歌曲信息卡片撤回秒数（0=不撤回）'),
     menuRecallSec: Schema.number().min(0).default(60).description('歌单撤回秒数（0=不撤回）'),
+    voiceRecallSec: Schema.number().min(0).default(300).description('语音撤回秒数（0=不撤回）'),
     recallOnlyAfterSuccess: Schema.boolean().default(true).description('仅在发送成功后才撤回（推荐开启）'),
     keepMenuIfSendFailed: Schema.boolean().default(true).description('发送失败时保留歌单（推荐开启）'),
   }).description('撤回设置'),
 
+  Schema.object({
+    optionAuthority: Schema.object({
+      source: Schema.natural().default(1).description('-s 指定音源'),
+      br: Schema.natural().default(1).description('-b 指定音质'),
+      mode: Schema.natural().default(1).description('-m 指定发送方式'),
+      format: Schema.natural().default(1).description('-f 指定转码格式'),
+      effect: Schema.natural().default(1).description('-e 选择音效'),
+    }).description('使用各指令选项所需的权限等级（1=所有用户；需要数据库插件才会生效）'),
+    settingsAuthority: Schema.natural().default(3).description('使用管理指令（music.config / music.mirrors / music.cache）所需的权限等级'),
+  }).description('权限设置'),
+
   Schema.object({
     debug: Schema.boolean().default(false).description('日志调试模式'),
   }).description('开发者选项'),
@@ -483,13 +1017,242 @@ export const Config: Schema<Config> = Schema.intersect([
 
 type PendingKey = string
 
+// 单次点歌的选项（指令参数）：音源/音质/发送方式/格式由 withOptions 合入配置，
+// 片段、音效与以文件发送随配置一起传递
+interface MusicOptions {
+  source?: SourceValue
+  br?: BrValue
+  sendMode?: SendMode
+  transcodeFormat?: TranscodeFormat
+  start?: number
+  length?: number
+  effect?: string
+  asFile?: boolean
+}
+
+function withOptions(cfg: Config, opts?: MusicOptions): Config {
+  if (!opts) return cfg
+  const out = { ...cfg }
+  if (opts.source) {
+    // 指定音源时不再聚合搜索
+    out.source = opts.source
+    out.sources = []
+  }
+  if (opts.br) out.br = opts.br
+  if (opts.sendMode) out.sendMode = opts.sendMode
+  if (opts.transcodeFormat) out.transcodeFormat = opts.transcodeFormat
+  return out
+}
+
+// 可选音效：预设中存在且在允许列表内
+function allowedEffects(cfg: Config): EffectPreset[] {
+  return (cfg.effectPresets || []).filter(p => p.name && p.filter && (cfg.effectAllowlist || []).includes(p.name))
+}
+
+// 本次发送附加的滤镜：音效在前，响度标准化在后（loudnorm 会升采样到 192k，需要再降回来）
+function audioFilters(cfg: Config, opts: MusicOptions): string[] {
+  const filters: string[] = []
+  const preset = opts.effect ? allowedEffects(cfg).find(p => p.name === opts.effect) : undefined
+  if (preset) filters.push(preset.filter)
+  if (cfg.loudnorm) filters.push(`loudnorm=I=${cfg.loudnormTarget}:TP=-1.5:LRA=11`, 'aresample=48000')
+  return filters
+}
+
+// 解析时间：“65” “1:05” “1:02:03”（秒，可带小数）
+function parseTimeSec(v: string): number | undefined {
+  const parts = String(v).trim().split(/[:：]/)
+  if (parts.length > 3 || parts.some(p => !/^\d+(\.\d+)?$/.test(p))) return
+  return parts.reduce((sum, p) => sum * 60 + Number(p), 0)
+}
+
+// 本次发送的截取片段：指令指定的片段，再受 maxVoiceSec 限制；无需截取时返回 undefined
+function clipRange(cfg: Config, opts: MusicOptions, item?: SearchItem): ClipRange | undefined {
+  const start = opts.start ?? 0
+  let length = opts.length
+  if (cfg.maxVoiceSec > 0) length = Math.min(length ?? cfg.maxVoiceSec, cfg.maxVoiceSec)
+  // 已知时长时不超过剩余部分，便于准确放置淡出
+  const durSec = item ? pickDurationSec(item) : undefined
+  if (durSec) {
+    if (!length || length > durSec - start) length = start > 0 ? durSec - start : undefined
+  }
+  if (!start && !length) return
+  return { start, length, fadeSec: cfg.clipFadeSec }
+}
+
+function durationCheckEnabled(cfg: Config, opts: MusicOptions) {
+  // 设置了截断 / 指定了片段长度时超长歌曲只截取，不再拒绝
+  return cfg.maxSongDurationMin > 0 && !(cfg.maxVoiceSec > 0 || opts.length)
+}
+
+function durationLimited(cfg: Config, opts: MusicOptions, item: SearchItem) {
+  const durSec = pickDurationSec(item)
+  return durationCheckEnabled(cfg, opts) && !!durSec && durSec > cfg.maxSongDurationMin * 60
+}
+
+function durationExceededText(cfg: Config, item: SearchItem) {
+  return cfg.durationExceeded
+    .replace('{duration}', fmtDuration(pickDurationSec(item)) ?? '')
+    .replace('{limit}', String(cfg.maxSongDurationMin))
+}
+
+function outOfRangeText(cfg: Config, n: number, max: number) {
+  return cfg.numberOutOfRange.replace('{n}', String(n)).replace('{max}', String(max))
+}
+
+// ffprobe 读取直链的时长（秒），失败返回 undefined
+async function ffprobeDuration(cfg: Config, url: string): Promise<number | undefined> {
+  const args = [
+    '-v', 'error',
+    '-user_agent', cfg.userAgent || 'koishi-music-to-voice/1.0',
+    '-show_entries', 'format=duration',
+    '-of', 'default=noprint_wrappers=1:nokey=1',
+    url,
+  ]
+  return await new Promise<number | undefined>((resolve) => {
+    const p = spawn(cfg.ffprobeBin || 'ffprobe', args, { stdio: ['ignore', 'pipe', 'pipe'] })
+    let out = ''
+    const timer = setTimeout(() => {
+      try { p.kill('SIGKILL') } catch {}
+      logger.warn(`ffprobe timeout: ${url}`)
+      resolve(undefined)
+    }, cfg.requestTimeoutMs)
+    p.stdout.on('data', (d: Buffer) => { out += d.toString() })
+    p.on('error', (e) => {
+      clearTimeout(timer)
+      logger.warn(`ffprobe failed: ${e?.message || e}`)
+      resolve(undefined)
+    })
+    p.on('close', (code) => {
+      clearTimeout(timer)
+      const sec = Number(out.trim())
+      resolve(code === 0 && Number.isFinite(sec) && sec > 0 ? sec : undefined)
+    })
+  })
+}
+
+// 读取直链的文件大小：优先 HEAD，不支持时请求第一个字节并从 Content-Range 读取总大小
+async function probeContentLength(ctx: Context, cfg: Config, url: string): Promise<number | undefined> {
+  const headers: Record<string, string> = {
+    'user-agent': cfg.userAgent || 'koishi-music-to-voice/1.0',
+    'accept': '*/*',
+  }
+  try {
+    const res = await ctx.http.head(url, { headers, timeout: cfg.requestTimeoutMs })
+    const length = Number(res.get('content-length'))
+    if (length > 0) return length
+  } catch (e: any) {
+    if (cfg.debug) logger.info(`HEAD ${url} failed: ${e?.message || e}`)
+  }
+  try {
+    const res = await ctx.http(url, {
+      method: 'GET',
+      headers: { ...headers, range: 'bytes=0-0' },
+      responseType: 'stream',
+      timeout: cfg.requestTimeoutMs,
+    })
+    await res.data.cancel().catch(() => {})
+    const total = /\/(\d+)\s*$/.exec(res.headers.get('content-range') || '')?.[1]
+    if (total) return Number(total)
+    // 服务器忽略 Range 时返回的是完整文件
+    const length = Number(res.headers.get('content-length'))
+    if (res.status === 200 && length > 0) return length
+  } catch (e: any) {
+    if (cfg.debug) logger.info(`range request ${url} failed: ${e?.message || e}`)
+  }
+}
+
+declare module 'koishi' {
+  interface Tables {
+    music_to_voice_settings: MusicSettings
+  }
+}
+
+// 群/频道级设置：id 为 guild:平台:群号 或 channel:平台:频道号
+interface MusicSettings {
+  id: string
+  overrides: Partial<Config>
+}
+
+type SettingKey =
+  | 'source' | 'sources' | 'br' | 'sendMode' | 'forceTranscode' | 'transcodeFormat'
+  | 'searchCount' | 'maxSongDurationMin' | 'maxVoiceSec' | 'loudnorm' | 'promptTimeoutSec' | 'tipRecallSec' | 'menuRecallSec'
+
+function parseOneOf<T>(values: readonly T[], v: T): T | undefined {
+  return values.includes(v) ? v : undefined
+}
+
+function parseNatural(v: string): number | undefined {
+  const n = Number(v)
+  return v !== '' && Number.isInteger(n) && n >= 0 ? n : undefined
+}
+
+function parseBool(v: string): boolean | undefined {
+  if (/^(true|on|yes|1|开|是)$/i.test(v)) return true
+  if (/^(false|off|no|0|关|否)$/i.test(v)) return false
+}
+
+// 可在群/频道级覆盖的配置项及其解析方式（返回 undefined 表示值无效）
+const SETTING_PARSERS: Record<SettingKey, (v: string) => any> = {
+  source: v => parseOneOf(SOURCE_VALUES, v as SourceValue),
+  sources: (v) => {
+    const list = v.split(/[\s,，]+/).filter(Boolean) as SourceValue[]
+    return list.every(x => SOURCE_VALUES.includes(x)) ? list : undefined
+  },
+  br: v => parseOneOf(BR_VALUES, Number(v) as BrValue),
+  sendMode: v => parseOneOf(SEND_MODES, v as SendMode),
+  forceTranscode: parseBool,
+  transcodeFormat: v => parseOneOf(TRANSCODE_FORMATS, v as TranscodeFormat),
+  searchCount: (v) => {
+    const n = parseNatural(v)
+    return n && n <= 50 ? n : undefined
+  },
+  maxSongDurationMin: parseNatural,
+  maxVoiceSec: parseNatural,
+  loudnorm: parseBool,
+  promptTimeoutSec: v => parseNatural(v) || undefined,
+  tipRecallSec: parseNatural,
+  menuRecallSec: parseNatural,
+}
+
+function settingsId(session: Session, scope: 'guild' | 'channel') {
+  const target = scope === 'guild' ? session.guildId : session.channelId
+  return target ? `${scope}:${session.platform}:${target}` : undefined
+}
+
+function applySettings(cfg: Config, overrides: Partial<Config>): Config {
+  const out = { ...cfg }
+  for (const key of Object.keys(SETTING_PARSERS) as SettingKey[]) {
+    if (overrides[key] !== undefined) (out as any)[key] = overrides[key]
+  }
+  // 只指定了单一音源时不再沿用上层的聚合音源
+  if (overrides.source && !overrides.sources) out.sources = []
+  return out
+}
+
+// 选择会话：menu（等待输入）→ resolving（解析直链）→ sending（发送中）→ done
+type SelectionState = 'menu' | 'resolving' | 'sending' | 'done'
+
 interface PendingState {
   userId: string
   channelId: string
   page: number
   keyword: string
   items: SearchItem[]
-  createdAt: number
+  // 本地分页时一次性拉取的全部结果（items 为当前页切片）
+  allItems?: SearchItem[]
+  // 本次点歌的有效配置：全局 → 群 → 频道 → 指令选项
+  config: Config
+  // 本次点歌的指令选项（片段 / 音效 / 以文件发送）
+  options: MusicOptions
+  // 选择后是否附带歌词
+  withLyric: boolean
+  state: SelectionState
+  // 空闲超时定时器（每次交互后重置）
+  timer?: () => void
+  // 最近一次交互的会话，用于发送超时提示
+  session?: Session
+  // 无法识别的输入次数
+  retries?: number
   // 适配不同 adapter 的返回（可能是 string / number / object），因此使用 any[]
   menuMessageIds: any[]
 }
@@ -500,29 +1263,133 @@ function pendingKey(session: Session, cfg?: Config) {
   return `${session.platform}:${session.userId}:${session.channelId}`
 }
 
-function isExitInput(input: string, cfg: Config) {
+function pageTarget(input: string, st: PendingState): number | undefined {
   const t = input.trim()
-  if (!t) return false
-  return cfg.exitCmds.map(x => x.trim()).filter(Boolean).includes(t)
+  const cfg = st.config
+  if (t === cfg.nextPageCmd) return st.page + 1
+  if (t === cfg.prevPageCmd) return Math.max(1, st.page - 1)
+  // 跳页：“第3页” / “p3”
+  const m = /^(?:第\s*(\d+)\s*页|p\s*(\d+))$/i.exec(t)
+  if (m) return Math.max(1, Number(m[1] ?? m[2]))
 }
 
-function buildSearchUrl(cfg: Config, keyword: string, page: number) {
-  const u = new URL(cfg.apiBase)
-  u.searchParams.set('types', 'search')
-  u.searchParams.set('source', cfg.source)
-  u.searchParams.set('name', keyword)
-  u.searchParams.set('count', String(cfg.searchCount))
-  u.searchParams.set('pages', String(page))
-  return u.toString()
+const CN_DIGITS: Record<string, number> = {
+  零: 0, 〇: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9,
 }
 
-function buildUrlUrl(cfg: Config, id: string, br: number) {
-  const u = new URL(cfg.apiBase)
-  u.searchParams.set('types', 'url')
-  u.searchParams.set('id', id)
-  u.searchParams.set('source', cfg.source)
-  u.searchParams.set('br', String(br))
-  return u.toString()
+function parseChineseNumber(s: string): number | undefined {
+  if (/^\d+$/.test(s)) return Number(s)
+  if (!/^[零〇一二两三四五六七八九十百]+$/.test(s)) return
+  let total = 0
+  let cur = 0
+  for (const ch of s) {
+    if (ch === '百') { total += (cur || 1) * 100; cur = 0 }
+    else if (ch === '十') { total += (cur || 1) * 10; cur = 0 }
+    else cur = CN_DIGITS[ch]
+  }
+  return total + cur
+}
+
+// 解析序号输入：“3” “1 3 5” “2-4” “第三首”；不像序号时返回 undefined，越界返回 'invalid'
+function parseIndices(input: string, max: number): number[] | 'invalid' | undefined {
+  const tokens = input.trim()
+    .replace(/\s*(-|~|～|到|至)\s*/g, '$1')
+    .split(/[\s,，、]+/)
+    .filter(Boolean)
+  if (!tokens.length) return
+  const out: number[] = []
+  for (const raw of tokens) {
+    const t = raw.replace(/^第/, '').replace(/[首个]$/, '')
+    const range = /^(.+?)(?:-|~|～|到|至)(.+)$/.exec(t)
+    const nums = (range ? [range[1], range[2]] : [t]).map(parseChineseNumber)
+    if (nums.some(n => n === undefined)) return
+    const [a, b = a] = nums as number[]
+    if (a < 1 || b < 1 || a > max || b > max) return 'invalid'
+    const step = a <= b ? 1 : -1
+    for (let i = a; i !== b + step; i += step) {
+      if (!out.includes(i)) out.push(i)
+    }
+  }
+  return out
+}
+
+// 歌名匹配的最短输入：至少 2 个汉字或 3 个其他字符，避免“好”“e”之类的闲聊误匹配
+function titleQueryLongEnough(input: string) {
+  const t = normText(input)
+  const cjk = t.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g)?.length ?? 0
+  return cjk >= 2 || t.length >= 3
+}
+
+// 按歌名 / 歌手模糊匹配当前页；最高分需足够接近，并至少领先第二名 margin
+function matchByTitle(input: string, items: SearchItem[], margin = 0): number | undefined {
+  if (!titleQueryLongEnough(input)) return
+  const scored = items.map((it, i) => {
+    const name = pickName(it)
+    const artist = pickArtist(it)
+    const score = Math.max(similarity(input, name), similarity(input, artist), similarity(input, `${name}${artist}`))
+    return { i, score }
+  }).sort((a, b) => b.score - a.score)
+  const [best, second] = scored
+  if (!best || best.score < 0.6) return
+  if (second && second.score >= 0.6 && best.score - second.score <= margin) return
+  return best.i + 1
+}
+
+// strict 为 false（群聊中直接回复）时，歌名需明显胜出，越界序号视为普通聊天
+function parseSelection(input: string, items: SearchItem[], strict = true): number[] | 'invalid' | undefined {
+  const indices = parseIndices(input, items.length)
+  if (indices === 'invalid') return strict ? indices : undefined
+  if (indices) return indices
+  const n = matchByTitle(input, items, strict ? 0 : 0.2)
+  return n ? [n] : undefined
+}
+
+function timeOption(v: string) {
+  const sec = parseTimeSec(v)
+  if (sec === undefined) throw new Error()
+  return sec
+}
+
+function isExitInput(input: string, cfg: Config) {
+  const t = input.trim()
+  if (!t) return false
+  return cfg.exitCmds.map(x => x.trim()).filter(Boolean).includes(t)
+}
+
+function buildSearchUrl(cfg: Config, base: string, keyword: string, page: number, source: SourceValue = cfg.source) {
+  const u = new URL(base)
+  u.searchParams.set('types', 'search')
+  u.searchParams.set('source', source)
+  u.searchParams.set('name', keyword)
+  u.searchParams.set('count', String(cfg.searchCount))
+  u.searchParams.set('pages', String(page))
+  return u.toString()
+}
+
+function buildUrlUrl(cfg: Config, base: string, id: string, br: number, source: SourceValue = cfg.source) {
+  const u = new URL(base)
+  u.searchParams.set('types', 'url')
+  u.searchParams.set('id', id)
+  u.searchParams.set('source', source)
+  u.searchParams.set('br', String(br))
+  return u.toString()
+}
+
+function buildPicUrl(cfg: Config, base: string, id: string, size: number, source: SourceValue = cfg.source) {
+  const u = new URL(base)
+  u.searchParams.set('types', 'pic')
+  u.searchParams.set('id', id)
+  u.searchParams.set('source', source)
+  u.searchParams.set('size', String(size))
+  return u.toString()
+}
+
+function buildLyricUrl(cfg: Config, base: string, id: string, source: SourceValue = cfg.source) {
+  const u = new URL(base)
+  u.searchParams.set('types', 'lyric')
+  u.searchParams.set('id', id)
+  u.searchParams.set('source', source)
+  return u.toString()
 }
 
 function normalizeSearchItems(resp: any): SearchItem[] {
@@ -538,50 +1405,1632 @@ function normalizeSearchItems(resp: any): SearchItem[] {
   return []
 }
 
-function renderMenuText(cfg: Config, keyword: string, page: number, items: SearchItem[]) {
-  const lines: string[] = []
-  const header = `🎵 搜索：${keyword}（第 ${page} 页）`
-  lines.push(header, '')
+type ProviderName = 'gd' | 'netease' | 'meting'
+
+// 音乐数据提供方：搜索 / 直链 / 歌词 / 封面
+interface MusicProvider {
+  name: ProviderName
+  // 支持的音源，未声明则视为全部支持
+  sources?: SourceValue[]
+  search(keyword: string, page: number, source: SourceValue): Promise<SearchItem[]>
+  getUrl(item: SearchItem, br: number): Promise<string | undefined>
+  getLyric(item: SearchItem): Promise<LyricResp | undefined>
+  getCover(item: SearchItem, size: number): Promise<string | undefined>
+  // 按 ID 获取歌曲信息（分享链接 / music.id 直接点歌时使用），可选
+  getDetail?(id: string, source: SourceValue): Promise<SearchItem | undefined>
+}
+
+// 提供方只依赖这两个请求函数，便于替换为本地 mock
+interface ProviderHttp {
+  json(url: string): Promise<any>
+  text(url: string): Promise<string>
+}
+
+// GD API 镜像健康状态（按地址记录，多个插件实例共享）
+interface MirrorHealth {
+  base: string
+  // 连续失败次数
+  failures: number
+  unhealthyUntil: number
+  requests: number
+  errors: number
+  lastLatencyMs?: number
+  lastError?: string
+}
+
+const mirrorHealth = new Map<string, MirrorHealth>()
+let mirrorCursor = 0
+
+function mirrorState(base: string): MirrorHealth {
+  let st = mirrorHealth.get(base)
+  if (!st) mirrorHealth.set(base, st = { base, failures: 0, unhealthyUntil: 0, requests: 0, errors: 0 })
+  return st
+}
+
+function apiMirrors(cfg: Config): string[] {
+  const list = (Array.isArray(cfg.apiBase) ? cfg.apiBase : [cfg.apiBase]).map(x => String(x).trim()).filter(Boolean)
+  return list.filter((v, i) => list.indexOf(v) === i)
+}
+
+function orderMirrors(cfg: Config): string[] {
+  // 健康的在前（按顺序或轮询），冷却中的放到最后兜底
+  let list = apiMirrors(cfg)
+  if (cfg.mirrorStrategy === 'round-robin' && list.length > 1) {
+    const start = mirrorCursor++ % list.length
+    list = [...list.slice(start), ...list.slice(0, start)]
+  }
+  const now = Date.now()
+  const healthy = list.filter(b => mirrorState(b).unhealthyUntil <= now)
+  const cooling = list.filter(b => mirrorState(b).unhealthyUntil > now)
+  return [...healthy, ...cooling]
+}
+
+function reportMirror(cfg: Config, base: string, latencyMs: number, err?: any) {
+  const st = mirrorState(base)
+  st.requests += 1
+  st.lastLatencyMs = latencyMs
+  if (!err) {
+    if (st.unhealthyUntil) logger.info(`mirror recovered: ${base}`)
+    st.failures = 0
+    st.unhealthyUntil = 0
+    return
+  }
+  st.errors += 1
+  st.failures += 1
+  st.lastError = err?.message || String(err)
+  if (st.failures >= cfg.mirrorFailThreshold && st.unhealthyUntil <= Date.now()) {
+    st.unhealthyUntil = Date.now() + cfg.mirrorCooldownSec * 1000
+    logger.warn(`mirror unhealthy for ${cfg.mirrorCooldownSec}s after ${st.failures} failures: ${base} (${st.lastError})`)
+  }
+}
+
+async function withMirrors<T>(cfg: Config, request: (base: string) => Promise<T>): Promise<T> {
+  let lastErr: any
+  for (const base of orderMirrors(cfg)) {
+    const start = Date.now()
+    try {
+      const out = await request(base)
+      reportMirror(cfg, base, Date.now() - start)
+      return out
+    } catch (e: any) {
+      lastErr = e
+      reportMirror(cfg, base, Date.now() - start, e)
+    }
+  }
+  throw lastErr ?? new Error('no api mirror configured')
+}
+
+function renderMirrorHealth(cfg: Config) {
+  const now = Date.now()
+  return apiMirrors(cfg).map((base, i) => {
+    const st = mirrorState(base)
+    const status = st.unhealthyUntil > now
+      ? `冷却中（剩余 ${Math.ceil((st.unhealthyUntil - now) / 1000)}s）`
+      : st.failures ? `连续失败 ${st.failures} 次` : '正常'
+    const latency = st.lastLatencyMs !== undefined ? `，延迟 ${st.lastLatencyMs}ms` : ''
+    const err = st.lastError && st.failures ? `\n   最近错误：${st.lastError}` : ''
+    return `${i + 1}. ${base}\n   ${status}，请求 ${st.requests} 次，失败 ${st.errors} 次${latency}${err}`
+  }).join('\n')
+}
+
+export function createGdProvider(cfg: Config, http: ProviderHttp): MusicProvider {
+  return {
+    name: 'gd',
+    async search(keyword, page, source) {
+      return normalizeSearchItems(await withMirrors(cfg, base => http.json(buildSearchUrl(cfg, base, keyword, page, source))))
+    },
+    async getUrl(item, br) {
+      const songId = toId(item?.id ?? item?.songid)
+      if (!songId) return
+      const resp = await withMirrors(cfg, base => http.json(buildUrlUrl(cfg, base, songId, br, itemSource(item, cfg))))
+      // 兼容：有的适配器返回直接对象/字符串，有的把实际 payload 放在 data 字段
+      const parsed = safeJsonParse(resp)
+      const r: UrlResp = parsed ?? (resp as any)?.data ?? resp
+      return r?.url || undefined
+    },
+    async getLyric(item) {
+      const lyricId = toId(item?.lyric_id ?? item?.id ?? item?.songid)
+      if (!lyricId) return
+      const resp = await withMirrors(cfg, base => http.json(buildLyricUrl(cfg, base, lyricId, itemSource(item, cfg))))
+      return safeJsonParse(resp) ?? undefined
+    },
+    async getCover(item, size) {
+      if (item?.pic && /^https?:\/\//i.test(item.pic)) return item.pic
+      const picId = toId(item?.pic_id)
+      if (!picId) return
+      const resp = await withMirrors(cfg, base => http.json(buildPicUrl(cfg, base, picId, size, itemSource(item, cfg))))
+      const r: PicResp = safeJsonParse(resp) ?? {}
+      return r.url || undefined
+    },
+  }
+}
+
+function joinApi(base: string, path: string, params: Record<string, string | number>) {
+  const u = new URL(path.replace(/^\//, ''), base.endsWith('/') ? base : base + '/')
+  for (const [k, v] of Object.entries(params)) u.searchParams.set(k, String(v))
+  return u.toString()
+}
+
+// NeteaseCloudMusicApi 兼容接口（自建）
+export function createNeteaseProvider(cfg: Config, http: ProviderHttp): MusicProvider {
+  const base = cfg.neteaseApiBase
+  return {
+    name: 'netease',
+    sources: ['netease'],
+    async search(keyword, page) {
+      const resp = await http.json(joinApi(base, '/cloudsearch', {
+        keywords: keyword,
+        type: 1,
+        limit: cfg.searchCount,
+        offset: (page - 1) * cfg.searchCount,
+      }))
+      const songs: any[] = resp?.result?.songs ?? []
+      return songs.map(s => ({
+        id: s.id,
+        name: s.name,
+        artist: (s.ar ?? s.artists ?? []).map((a: any) => a?.name).filter(Boolean).join(' / '),
+        album: s.al?.name ?? s.album?.name,
+        pic: s.al?.picUrl,
+        duration: s.dt ?? s.duration,
+      }))
+    },
+    async getUrl(item, br) {
+      const id = toId(item?.id ?? item?.songid)
+      if (!id) return
+      // 740/999 视为无损
+      const resp = await http.json(joinApi(base, '/song/url', { id, br: br >= 740 ? 999000 : br * 1000 }))
+      const list: any[] = Array.isArray(resp) ? resp : resp?.data ?? []
+      return list[0]?.url || undefined
+    },
+    async getLyric(item) {
+      const id = toId(item?.id ?? item?.songid)
+      if (!id) return
+      const resp = await http.json(joinApi(base, '/lyric', { id }))
+      return { lyric: resp?.lrc?.lyric, tlyric: resp?.tlyric?.lyric }
+    },
+    async getCover(item, size) {
+      let pic = item?.pic
+      if (!pic) {
+        const id = toId(item?.id ?? item?.songid)
+        if (!id) return
+        const resp = await http.json(joinApi(base, '/song/detail', { ids: id }))
+        pic = resp?.songs?.[0]?.al?.picUrl
+      }
+      return pic ? `${pic}?param=${size}y${size}` : undefined
+    },
+    async getDetail(id) {
+      const resp = await http.json(joinApi(base, '/song/detail', { ids: id }))
+      const s = resp?.songs?.[0]
+      if (!s) return
+      return {
+        id: s.id,
+        name: s.name,
+        artist: (s.ar ?? []).map((a: any) => a?.name).filter(Boolean).join(' / '),
+        album: s.al?.name,
+        pic: s.al?.picUrl,
+        duration: s.dt,
+      }
+    },
+  }
+}
+
+// Meting 兼容接口（如 Meting-API）：url/pic/lrc 字段本身就是接口地址
+export function createMetingProvider(cfg: Config, http: ProviderHttp): MusicProvider {
+  const base = cfg.metingApiBase
+  return {
+    name: 'meting',
+    sources: ['netease', 'tencent', 'kugou', 'kuwo'],
+    async search(keyword, page, source) {
+      // Meting 搜索不支持分页
+      if (page > 1) return []
+      const resp = await http.json(joinApi(base, '', { server: source, type: 'search', id: keyword }))
+      const list: any[] = Array.isArray(resp) ? resp : []
+      return list.slice(0, cfg.searchCount).map((s) => {
+        let id: string | undefined
+        try { id = new URL(s.url).searchParams.get('id') ?? undefined } catch {}
+        return {
+          id: id ?? s.id,
+          name: s.name ?? s.title,
+          artist: s.artist ?? s.author,
+          pic: s.pic,
+          url: s.url,
+          lrc: s.lrc,
+        }
+      })
+    },
+    async getUrl(item) {
+      return item?.url || undefined
+    },
+    async getLyric(item) {
+      if (!item?.lrc) return
+      return { lyric: await http.text(item.lrc) }
+    },
+    async getCover(item) {
+      return item?.pic || undefined
+    },
+    async getDetail(id, source) {
+      const resp = await http.json(joinApi(base, '', { server: source, type: 'song', id }))
+      const s = Array.isArray(resp) ? resp[0] : undefined
+      if (!s) return
+      return { id, name: s.name ?? s.title, artist: s.artist ?? s.author, pic: s.pic, url: s.url, lrc: s.lrc }
+    },
+  }
+}
+
+function createProvider(ctx: Context, cfg: Config, name: ProviderName): MusicProvider | undefined {
+  const http: ProviderHttp = {
+    json: url => httpGetJson(ctx, url, cfg),
+    text: url => httpGetText(ctx, url, cfg),
+  }
+  if (name === 'gd') return createGdProvider(cfg, http)
+  if (name === 'netease' && cfg.neteaseApiBase) return createNeteaseProvider(cfg, http)
+  if (name === 'meting' && cfg.metingApiBase) return createMetingProvider(cfg, http)
+}
+
+function providersFor(ctx: Context, cfg: Config, source: SourceValue): MusicProvider[] {
+  const names = cfg.providers?.length ? cfg.providers : ['gd' as const]
+  return names
+    .map(name => createProvider(ctx, cfg, name))
+    .filter((p): p is MusicProvider => !!p && (!p.sources || p.sources.includes(source)))
+}
+
+function itemProvider(ctx: Context, cfg: Config, item: SearchItem): MusicProvider | undefined {
+  // 条目来自哪个提供方就用哪个提供方解析；旧数据默认 GD
+  return createProvider(ctx, cfg, item?.provider ?? 'gd')
+}
+
+function brLadder(br: BrValue): number[] {
+  return br === 999
+    ? [999, 740, 320, 192, 128]
+    : br === 740
+      ? [740, 320, 192, 128]
+      : br === 320
+        ? [320, 192, 128]
+        : br === 192
+          ? [192, 128]
+          : [128]
+}
+
+async function resolveSongUrl(ctx: Context, cfg: Config, item: SearchItem) {
+  const out: { url?: string, br?: number, lastErr?: any } = {}
+  const provider = itemProvider(ctx, cfg, item)
+  if (!provider) return out
+  const songId = toId(item?.id ?? item?.songid)
+  const source = itemSource(item, cfg)
+
+  for (const br of brLadder(cfg.br)) {
+    try {
+      const url = await provider.getUrl(item, br)
+      if (url) {
+        out.url = url
+        out.br = br
+        logger.info(`got url for ${provider.name}/${source}:${songId} br=${br} -> ${url}`)
+        break
+      } else {
+        logger.info(`no url returned for ${provider.name}/${source}:${songId} br=${br}`)
+      }
+    } catch (e: any) {
+      out.lastErr = e
+    }
+  }
+  return out
+}
+
+function similarity(a: string, b: string): number {
+  // 归一化后的 bigram Dice 系数；包含关系（如带 Live/伴奏 后缀）给较高分
+  const x = normText(a)
+  const y = normText(b)
+  if (!x || !y) return 0
+  if (x === y) return 1
+  const contains = x.includes(y) || y.includes(x) ? 0.85 : 0
+  if (x.length < 2 || y.length < 2) return contains
+  const grams = (t: string) => {
+    const m = new Map<string, number>()
+    for (let i = 0; i < t.length - 1; i++) m.set(t.slice(i, i + 2), (m.get(t.slice(i, i + 2)) ?? 0) + 1)
+    return m
+  }
+  const gx = grams(x)
+  const gy = grams(y)
+  let hit = 0
+  for (const [g, c] of gx) hit += Math.min(c, gy.get(g) ?? 0)
+  return Math.max(contains, (2 * hit) / (x.length - 1 + y.length - 1))
+}
+
+function matchScore(origin: SearchItem, candidate: SearchItem): number {
+  const title = similarity(pickName(origin), pickName(candidate))
+  const artist = pickArtist(origin)
+  if (!artist) return title
+  return title * 0.7 + similarity(artist, pickArtist(candidate)) * 0.3
+}
+
+async function findOnOtherSources(ctx: Context, cfg: Config, item: SearchItem) {
+  // 没有歌名（例如按 ID 点歌且无法补全信息）时无从匹配，避免搜到“未知歌曲”之类的无关结果
+  if (!(item?.name ?? item?.title)) return
+  const origin = itemSource(item, cfg)
+  const name = pickName(item)
+  const artist = pickArtist(item)
+  const dur = pickDurationSec(item)
+  const keyword = artist ? `${name} ${artist}` : name
+
+  for (const source of cfg.fallbackSources) {
+    if (source === origin) continue
+    let candidates: SearchItem[]
+    try {
+      candidates = await searchSource(ctx, cfg, keyword, 1, source)
+    } catch (e: any) {
+      logger.warn(`fallback search failed on ${source}: ${e?.message || e}`)
+      continue
+    }
+
+    const ranked = candidates
+      .filter((c) => {
+        const d = pickDurationSec(c)
+        return !dur || !d || Math.abs(d - dur) <= cfg.fallbackDurationToleranceSec
+      })
+      .map(c => ({ item: c, score: matchScore(item, c) }))
+      .filter(x => x.score >= cfg.fallbackMatchThreshold)
+      .sort((a, b) => b.score - a.score)
+
+    // 只尝试最相近的几首，避免请求过多
+    for (const { item: c, score } of ranked.slice(0, 3)) {
+      const r = await resolveSongUrl(ctx, cfg, c)
+      if (r.url) {
+        logger.info(`fallback matched ${source}:${toId(c.id ?? c.songid)} (${pickName(c)} - ${pickArtist(c)}, score=${score.toFixed(2)})`)
+        return { item: c, url: r.url, br: r.br }
+      }
+    }
+  }
+}
+
+function activeSources(cfg: Config): SourceValue[] {
+  // 聚合模式：sources 非空时按其顺序（即优先级）搜索，否则只用 source
+  const list = cfg.sources?.length ? cfg.sources : [cfg.source]
+  return list.filter((v, i) => list.indexOf(v) === i)
+}
+
+function itemSource(it: SearchItem | undefined, cfg: Config): SourceValue {
+  return it?.source ?? cfg.source
+}
+
+function normText(s: string) {
+  return s.toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '')
+}
+
+function songKey(it: SearchItem) {
+  return `${normText(pickName(it))}|${normText(pickArtist(it))}`
+}
+
+function mergeSearchResults(lists: SearchItem[][]): SearchItem[] {
+  // lists 按音源优先级排列：同名同歌手只保留优先级最高的一条，按各源中的最佳名次排序
+  const merged = new Map<string, { item: SearchItem, rank: number, prio: number }>()
+  lists.forEach((list, prio) => list.forEach((item, rank) => {
+    const key = songKey(item)
+    const cur = merged.get(key)
+    if (!cur) merged.set(key, { item, rank, prio })
+    else if (rank < cur.rank) cur.rank = rank
+  }))
+  return [...merged.values()]
+    .sort((a, b) => a.rank - b.rank || a.prio - b.prio)
+    .map(x => x.item)
+}
+
+// 搜索结果缓存：source + keyword + page（以及影响结果的提供方/数量）
+const searchCache = new Map<string, { items: SearchItem[], expiresAt: number }>()
+const SEARCH_CACHE_MAX = 200
+
+async function searchSource(ctx: Context, cfg: Config, keyword: string, page: number, source: SourceValue): Promise<SearchItem[]> {
+  const ttl = cfg.searchCacheTtlSec * 1000
+  const key = [source, keyword.trim().toLowerCase(), page, cfg.searchCount, (cfg.providers || []).join(',')].join('|')
+  if (ttl > 0) {
+    const hit = searchCache.get(key)
+    if (hit && hit.expiresAt > Date.now()) return hit.items
+    searchCache.delete(key)
+  }
+
+  const items = await searchSourceUncached(ctx, cfg, keyword, page, source)
+  if (ttl > 0 && items.length) {
+    // Map 按插入顺序迭代，超出上限时删除最早的
+    if (searchCache.size >= SEARCH_CACHE_MAX) searchCache.delete(searchCache.keys().next().value!)
+    searchCache.set(key, { items, expiresAt: Date.now() + ttl })
+  }
+  return items
+}
+
+async function searchSourceUncached(ctx: Context, cfg: Config, keyword: string, page: number, source: SourceValue): Promise<SearchItem[]> {
+  // 按配置顺序尝试提供方，第一个成功（且有结果）的为准
+  const providers = providersFor(ctx, cfg, source)
+  if (!providers.length) throw new Error(`no provider supports source ${source}`)
+  let lastErr: any
+  for (const provider of providers) {
+    try {
+      const items = await provider.search(keyword, page, source)
+      if (!items.length) continue
+      return items.map(it => ({ ...it, source: it.source || source, provider: provider.name }))
+    } catch (e: any) {
+      lastErr = e
+      logger.warn(`search failed on provider ${provider.name}: ${e?.message || e}`)
+    }
+  }
+  if (lastErr) throw lastErr
+  return []
+}
+
+async function searchSongs(ctx: Context, cfg: Config, keyword: string, page: number): Promise<SearchItem[]> {
+  const search = (source: SourceValue) => searchSource(ctx, cfg, keyword, page, source)
+
+  const sources = activeSources(cfg)
+  if (sources.length === 1) return await search(sources[0])
+
+  const results = await Promise.allSettled(sources.map(search))
+  const lists: SearchItem[][] = []
+  let lastErr: any
+  results.forEach((r, i) => {
+    if (r.status === 'fulfilled') {
+      lists.push(r.value)
+    } else {
+      lastErr = r.reason
+      logger.warn(`search failed on ${sources[i]}: ${r.reason?.message || r.reason}`)
+    }
+  })
+  if (!lists.length) throw lastErr
+  return mergeSearchResults(lists).slice(0, cfg.searchCount)
+}
+
+// 分享链接识别：匹配到的第一组为歌曲 ID
+const SHARE_PATTERNS: { source: SourceValue, re: RegExp }[] = [
+  { source: 'netease', re: /music\.163\.com\/.*?song(?:\/|\?(?:[^#\s]*&)?id=)(\d+)/i },
+  { source: 'tencent', re: /y\.qq\.com\/.*?(?:songDetail\/|songmid=)(\w+)/i },
+  { source: 'kuwo', re: /kuwo\.cn\/.*?play_detail\/(\d+)/i },
+  { source: 'kugou', re: /kugou\.com\/.*?hash=(\w+)/i },
+  { source: 'migu', re: /migu\.cn\/.*?song\/(\w+)/i },
+  { source: 'spotify', re: /open\.spotify\.com\/(?:[\w-]+\/)?track\/(\w+)/i },
+  { source: 'ytmusic', re: /music\.youtube\.com\/watch\?(?:[^#\s]*&)?v=([\w-]+)/i },
+  { source: 'deezer', re: /deezer\.com\/(?:\w+\/)?track\/(\d+)/i },
+  { source: 'tidal', re: /tidal\.com\/(?:browse\/)?track\/(\d+)/i },
+  { source: 'qobuz', re: /qobuz\.com\/.*?track\/(\w+)/i },
+  { source: 'apple', re: /music\.apple\.com\/.*?[?&]i=(\d+)/i },
+  { source: 'ximalaya', re: /ximalaya\.com\/.*?sound\/(\d+)/i },
+]
+
+// 短链域名：需要跟随跳转后再识别
+const SHORT_LINK_HOSTS = ['163cn.tv', 'url.163.com', 'c6.y.qq.com', 'c.y.qq.com', 'url.cn', 't.cn', 'm.kuwo.cn', 'dwz.cn']
+
+interface ShareLink {
+  source: SourceValue
+  id: string
+}
+
+function matchShareLink(text: string): ShareLink | undefined {
+  const t = text.replace(/&amp;/g, '&')
+  for (const { source, re } of SHARE_PATTERNS) {
+    const m = re.exec(t)
+    if (m) return { source, id: m[1] }
+  }
+}
+
+async function parseShareLink(ctx: Context, cfg: Config, text: string): Promise<ShareLink | undefined> {
+  const direct = matchShareLink(text)
+  if (direct) return direct
+
+  const url = /https?:\/\/[^\s<>"'，。）)]+/i.exec(text.replace(/&amp;/g, '&'))?.[0]
+  if (!url) return
+  let host: string
+  try { host = new URL(url).hostname.toLowerCase() } catch { return }
+  if (!SHORT_LINK_HOSTS.some(h => host === h || host.endsWith(`.${h}`))) return
+
+  // 跟随跳转，用最终地址（以及落地页内容）识别
+  try {
+    const res = await ctx.http('GET', url, {
+      timeout: cfg.requestTimeoutMs,
+      headers: { 'user-agent': cfg.userAgent || 'koishi-music-to-voice/1.0' },
+      responseType: 'text',
+      redirect: 'follow',
+    })
+    const body = typeof res.data === 'string' ? res.data.slice(0, 20000) : ''
+    return matchShareLink(`${res.url}\n${body}`)
+  } catch (e: any) {
+    logger.warn(`resolve short link failed: ${e?.message || e}`)
+  }
+}
+
+// 按 ID 构造歌曲条目：优先由支持的提供方补全歌曲信息
+async function lookupSong(ctx: Context, cfg: Config, source: SourceValue, id: string): Promise<SearchItem | undefined> {
+  const providers = providersFor(ctx, cfg, source)
+  for (const provider of providers) {
+    if (!provider.getDetail) continue
+    try {
+      const item = await provider.getDetail(id, source)
+      if (item) return { ...item, source, provider: provider.name }
+    } catch (e: any) {
+      logger.warn(`song detail failed on ${provider.name}/${source}: ${e?.message || e}`)
+    }
+  }
+  // Meting 依赖详情中的 url 字段，拿不到详情时无法解析
+  const provider = providers.find(p => p.name !== 'meting')
+  if (!provider) return
+  // 没有详情接口（如 GD）：用 ID 搜索，结果中 ID 完全一致时借用其歌名/歌手/时长
+  try {
+    const found = (await provider.search(id, 1, source)).find(it => toId(it?.id ?? it?.songid) === id)
+    if (found) return { ...found, source, provider: provider.name }
+  } catch (e: any) {
+    if (cfg.debug) logger.info(`search by id failed on ${provider.name}/${source}: ${e?.message || e}`)
+  }
+  return { id, source, provider: provider.name }
+}
+
+function pageLabel(cfg: Config, page: number, total?: number) {
+  if (total === undefined) return `第 ${page} 页`
+  const size = cfg.localPaging ? cfg.pageSize : cfg.searchCount
+  return `第 ${page}/${Math.max(1, Math.ceil(total / size))} 页，共 ${total} 首`
+}
+
+function renderMenuText(cfg: Config, keyword: string, page: number, items: SearchItem[], total?: number) {
+  const lines: string[] = []
+  const header = `🎵 搜索：${keyword}（${pageLabel(cfg, page, total)}）`
+  lines.push(header, '')
+
+  const multi = activeSources(cfg).length > 1
+  items.slice(0, cfg.searchCount).forEach((it, i) => {
+    const idx = i + 1
+    const title = pickName(it)
+    const artist = pickArtist(it)
+    const dur = fmtDuration(pickDurationSec(it))
+    // ✅ 不再出现 [--:--]：拿不到就不显示
+    const suffix = dur ? `  [${dur}]` : ''
+    const tag = multi ? `[${sourceLabel(itemSource(it, cfg))}] ` : ''
+    lines.push(`${idx}. ${tag}${title}${artist ? ` - ${artist}` : ''}${suffix}`)
+  })
+
+  lines.push('', `指令：${cfg.prevPageCmd} / ${cfg.nextPageCmd} / 第N页`)
+  if (cfg.showExitHint) lines.push(`退出：${cfg.exitCmds.join(' / ')}`)
+  lines.push('回复序号即可点歌。')
+
+  return lines.join('\n')
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!))
+}
+
+function renderSongInfo(cfg: Config, item: SearchItem, br?: number) {
+  const lines = [`🎵 ${pickName(item)}`]
+  const artist = pickArtist(item)
+  const album = pickAlbum(item)
+  const dur = fmtDuration(pickDurationSec(item))
+  if (artist) lines.push(`歌手：${artist}`)
+  if (album) lines.push(`专辑：${album}`)
+  if (dur) lines.push(`时长：${dur}`)
+  if (br) lines.push(`音质：${br >= 740 ? `${br}（无损）` : `${br}k`}`)
+  lines.push(`音源：${sourceLabel(itemSource(item, cfg))}`)
+  return lines.join('\n')
+}
+
+// covers 与 items 按下标对应（由提供方解析，GD 只有 pic_id 时需单独请求）
+function renderMenuHtml(cfg: Config, keyword: string, page: number, items: SearchItem[], total?: number, covers: (string | undefined)[] = []) {
+  const rows = items.slice(0, cfg.searchCount).map((it, i) => {
+    const badge = escapeHtml(sourceLabel(itemSource(it, cfg)))
+    const title = escapeHtml(pickName(it))
+    const artist = escapeHtml(pickArtist(it))
+    const dur = fmtDuration(pickDurationSec(it))
+    const pic = covers[i] ?? it.pic
+    const cover = pic && /^https?:\/\//i.test(pic)
+      ? `<img class="cover" src="${escapeHtml(pic)}" onerror="this.style.visibility='hidden'">`
+      : '<div class="cover"></div>'
+    return `<div class="row">
+      <div class="idx">${i + 1}</div>
+      ${cover}
+      <div class="info"><div class="title">${title}</div><div class="artist">${artist}</div></div>
+      <div class="dur">${dur ?? ''}</div>
+      <div class="badge">${badge}</div>
+    </div>`
+  }).join('')
+
+  const hints = [`${escapeHtml(cfg.prevPageCmd)} / ${escapeHtml(cfg.nextPageCmd)} / 第N页`]
+  if (cfg.showExitHint) hints.push(`退出：${cfg.exitCmds.map(escapeHtml).join(' / ')}`)
+  hints.push('回复序号即可点歌')
+
+  return `<html><head><meta charset="utf-8"><style>
+    body { margin: 0; background: transparent; font-family: "PingFang SC", "Microsoft YaHei", "Noto Sans CJK SC", sans-serif; }
+    .menu { width: 560px; padding: 20px; background: linear-gradient(160deg, #1f2937, #111827); color: #f9fafb; }
+    .header { display: flex; justify-content: space-between; align-items: baseline; margin-bottom: 12px; }
+    .header .kw { font-size: 22px; font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; max-width: 420px; }
+    .header .page { font-size: 14px; color: #9ca3af; }
+    .row { display: flex; align-items: center; padding: 6px 0; border-bottom: 1px solid rgba(255,255,255,.06); }
+    .idx { width: 32px; font-size: 16px; font-weight: 600; color: #60a5fa; text-align: center; }
+    .cover { width: 40px; height: 40px; border-radius: 6px; object-fit: cover; background: #374151; margin: 0 10px; flex: none; }
+    .info { flex: 1; min-width: 0; }
+    .title { font-size: 15px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    .artist { font-size: 12px; color: #9ca3af; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    .dur { width: 48px; font-size: 12px; color: #d1d5db; text-align: right; }
+    .badge { margin-left: 10px; padding: 2px 6px; font-size: 11px; border-radius: 4px; background: #2563eb; white-space: nowrap; }
+    .footer { margin-top: 12px; font-size: 12px; color: #9ca3af; }
+  </style></head><body><div class="menu">
+    <div class="header"><div class="kw">🎵 ${escapeHtml(keyword)}</div><div class="page">${pageLabel(cfg, page, total)}</div></div>
+    ${rows}
+    <div class="footer">${hints.join('　')}</div>
+  </div></body></html>`
+}
+
+async function renderMenu(ctx: Context, cfg: Config, keyword: string, page: number, items: SearchItem[], total?: number): Promise<string> {
+  // 图片歌单：需要 puppeteer 服务，缺失或渲染失败时回退文本
+  if (cfg.menuAsImage) {
+    if (!ctx.puppeteer) {
+      if (cfg.debug) logger.info('menuAsImage enabled but puppeteer service not available; using text menu')
+    } else {
+      try {
+        const covers = await Promise.all(items.slice(0, cfg.searchCount).map(it => resolveCover(ctx, cfg, it)))
+        const html = renderMenuHtml(cfg, keyword, page, items, total, covers)
+        return await ctx.puppeteer.render(html, async (p, next) => next(await p.$('.menu') ?? undefined))
+      } catch (e: any) {
+        logger.warn(`render image menu failed: ${e?.message || e}; falling back to text`)
+      }
+    }
+  }
+  return renderMenuText(cfg, keyword, page, items, total)
+}
+
+const LRC_TIME_RE = /\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/g
+
+function parseLrc(lrc?: string): { time: number, text: string }[] {
+  // 解析 LRC：一行可能带多个时间戳；无时间戳的元信息行（[ar:] 等）丢弃
+  const out: { time: number, text: string }[] = []
+  if (!lrc) return out
+  for (const line of String(lrc).split(/\r?\n/)) {
+    const times: number[] = []
+    for (const m of line.matchAll(LRC_TIME_RE)) {
+      const frac = m[3] ? Number(m[3].padEnd(3, '0')) : 0
+      times.push(Number(m[1]) * 60000 + Number(m[2]) * 1000 + frac)
+    }
+    if (!times.length) continue
+    const text = line.replace(LRC_TIME_RE, '').trim()
+    if (!text) continue
+    for (const time of times) out.push({ time, text })
+  }
+  return out.sort((a, b) => a.time - b.time)
+}
+
+function renderLyricText(resp: LyricResp, withTranslation: boolean): string {
+  const lines = parseLrc(resp.lyric)
+  if (!lines.length) {
+    // 纯文本歌词（无时间戳）
+    return String(resp.lyric ?? '').replace(/\[[a-z]+:[^\]]*\]/gi, '').trim()
+  }
+  const trans = new Map<number, string>()
+  if (withTranslation) {
+    for (const l of parseLrc(resp.tlyric)) trans.set(l.time, l.text)
+  }
+  return lines.map(l => {
+    const t = trans.get(l.time)
+    return t && t !== l.text ? `${l.text}\n${t}` : l.text
+  }).join('\n')
+}
+
+function splitText(text: string, size: number): string[] {
+  // 按行切分，单段不超过 size 字符
+  const chunks: string[] = []
+  let cur = ''
+  for (const line of text.split('\n')) {
+    if (cur && cur.length + line.length + 1 > size) {
+      chunks.push(cur)
+      cur = ''
+    }
+    cur = cur ? `${cur}\n${line}` : line
+  }
+  if (cur) chunks.push(cur)
+  return chunks
+}
+
+export async function safeRecall(session: Session, messageIds: any[]) {
+  // session.send 返回的是 id 数组，展开后逐条撤回
+  for (const id of messageIds.flat(Infinity)) {
+    try {
+      // 支持多种 id 形态：string/number/object
+      if (id === null || id === undefined) continue
+      // 常见 adapter 返回 message id 字符串/数字，直接传给 deleteMessage
+      // 有些适配器返回对象 { id, messageId, msgId }，尝试抽取字段
+      if (typeof id === 'object') {
+        const candidate = (id.messageId ?? id.msgId ?? id.id ?? id)
+        await session.bot.deleteMessage(session.channelId!, candidate as any)
+      } else {
+        await session.bot.deleteMessage(session.channelId!, id as any)
+      }
+    } catch (e) {
+      // 忽略失败，但记录下以便排查
+      logger.warn(`safeRecall failed to delete message id=${JSON.stringify(id)}: ${(e as any)?.message || e}`)
+    }
+  }
+}
+
+async function fetchLyric(ctx: Context, cfg: Config, item: SearchItem): Promise<string | undefined> {
+  const r = await itemProvider(ctx, cfg, item)?.getLyric(item)
+  if (!r) return
+  const text = renderLyricText(r, cfg.lyricTranslation)
+  return text || undefined
+}
+
+async function sendLyric(ctx: Context, cfg: Config, session: Session, item: SearchItem) {
+  let text: string | undefined
+  try {
+    text = await fetchLyric(ctx, cfg, item)
+  } catch (e: any) {
+    logger.warn(`lyric failed: ${e?.message || e}`)
+  }
+  if (!text) {
+    await session.send(cfg.lyricNotFound)
+    return
+  }
+
+  const header = `🎼 ${songLabel(item)}`
+  if (cfg.lyricForwardThreshold > 0 && text.length > cfg.lyricForwardThreshold) {
+    // 过长：合并转发（不支持转发的适配器会按普通消息逐条发送）
+    const nodes = [header, ...splitText(text, cfg.lyricForwardThreshold)]
+      .map(t => h('message', {}, t))
+    await session.send(h('message', { forward: true }, nodes))
+    return
+  }
+  await session.send(`${header}\n\n${text}`)
+}
+
+async function resolveCover(ctx: Context, cfg: Config, item: SearchItem): Promise<string | undefined> {
+  try {
+    return await itemProvider(ctx, cfg, item)?.getCover(item, cfg.coverSize)
+  } catch (e: any) {
+    logger.warn(`cover failed: ${e?.message || e}`)
+  }
+}
+
+function songLabel(item: SearchItem) {
+  const artist = pickArtist(item)
+  return `${pickName(item)}${artist ? ` - ${artist}` : ''}`
+}
+
+interface QueueEntry {
+  item: SearchItem
+  config: Config
+  options: MusicOptions
+  session: Session
+}
+
+interface PlayQueue {
+  entries: QueueEntry[]
+  current?: QueueEntry
+  // 当前歌曲被跳过（尚未发送时生效）
+  skip: boolean
+  running: boolean
+}
+
+interface AudioCacheEntry {
+  key: string
+  file: string
+  mime: string
+  size: number
+  createdAt: number
+  lastAccess: number
+}
+
+interface AudioCache {
+  get(key: string): Promise<{ buffer: Buffer, mime: string } | undefined>
+  set(key: string, buffer: Buffer, mime: string): Promise<void>
+  stats(): Promise<{ count: number, size: number, hits: number, misses: number }>
+  clear(): Promise<void>
+}
+
+// 转码结果磁盘缓存：index.json 记录条目，超出容量按最近访问时间（LRU）淘汰，超过 TTL 视为失效
+export function createAudioCache(dir: string, cfg: Config): AudioCache {
+  const indexFile = resolve(dir, 'index.json')
+  const maxBytes = cfg.cacheMaxMB * 1024 * 1024
+  const ttlMs = cfg.cacheTtlHours * 3600 * 1000
+  let entries: Record<string, AudioCacheEntry> | undefined
+  // 并发调用共享同一次加载，避免各自读取 index.json 后互相覆盖
+  let loading: Promise<Record<string, AudioCacheEntry>> | undefined
+  // index.json 按顺序写入
+  let saving: Promise<void> = Promise.resolve()
+  let hits = 0
+  let misses = 0
+
+  function load() {
+    return loading ??= (async () => {
+      await mkdir(dir, { recursive: true })
+      try {
+        entries = JSON.parse(await readFile(indexFile, 'utf8')) ?? {}
+      } catch {
+        entries = {}
+      }
+      // 删除索引中没有记录的音频文件（例如写入索引前进程退出），否则不计入容量也不会被淘汰
+      const known = new Set(Object.values(entries!).map(e => e.file))
+      for (const file of await readdir(dir).catch(() => [] as string[])) {
+        if (file.endsWith('.bin') && !known.has(file)) await unlink(resolve(dir, file)).catch(() => {})
+      }
+      return entries!
+    })()
+  }
+
+  function save() {
+    saving = saving.catch(() => {}).then(() => writeFile(indexFile, JSON.stringify(entries ?? {})))
+    return saving
+  }
+
+  async function remove(e: AudioCacheEntry) {
+    delete entries![e.key]
+    await unlink(resolve(dir, e.file)).catch(() => {})
+  }
+
+  function expired(e: AudioCacheEntry) {
+    return ttlMs > 0 && Date.now() - e.createdAt > ttlMs
+  }
+
+  async function evict() {
+    const list = Object.values(entries!)
+    for (const e of list.filter(expired)) await remove(e)
+    let total = Object.values(entries!).reduce((n, e) => n + e.size, 0)
+    const lru = Object.values(entries!).sort((a, b) => a.lastAccess - b.lastAccess)
+    for (const e of lru) {
+      if (total <= maxBytes) break
+      total -= e.size
+      await remove(e)
+    }
+  }
+
+  return {
+    async get(key) {
+      const all = await load()
+      const e = all[key]
+      if (!e || expired(e)) {
+        if (e) {
+          await remove(e)
+          await save()
+        }
+        misses += 1
+        return
+      }
+      try {
+        const buffer = await readFile(resolve(dir, e.file))
+        e.lastAccess = Date.now()
+        hits += 1
+        await save()
+        return { buffer, mime: e.mime }
+      } catch {
+        await remove(e)
+        await save()
+        misses += 1
+      }
+    },
+    async set(key, buffer, mime) {
+      if (buffer.length > maxBytes) return
+      const all = await load()
+      const file = createHash('sha1').update(key).digest('hex') + '.bin'
+      await writeFile(resolve(dir, file), buffer)
+      const now = Date.now()
+      all[key] = { key, file, mime, size: buffer.length, createdAt: now, lastAccess: now }
+      await evict()
+      await save()
+    },
+    async stats() {
+      const list = Object.values(await load())
+      return { count: list.length, size: list.reduce((n, e) => n + e.size, 0), hits, misses }
+    },
+    async clear() {
+      await rm(dir, { recursive: true, force: true })
+      entries = undefined
+      loading = undefined
+      hits = 0
+      misses = 0
+    },
+  }
+}
+
+function audioCacheKey(cfg: Config, song: ResolvedSong, clip?: ClipRange, filters: string[] = [], sampleRate?: number) {
+  const id = toId(song.item?.id ?? song.item?.songid)
+  if (!id) return
+  const range = clip ? `${clip.start}+${clip.length ?? ''}~${clip.fadeSec ?? 0}` : ''
+  const split = cfg.splitSegmentSec > 0 ? `split${cfg.splitSegmentSec}` : ''
+  const rate = sampleRate ? `${sampleRate}hz` : ''
+  const key = [itemSource(song.item, cfg), id, song.br ?? '', cfg.transcodeFormat, range, split, rate].join(':')
+  return filters.length ? `${key}:${filters.join(';')}` : key
+}
+
+function fmtBytes(n: number) {
+  if (n >= 1024 * 1024) return `${(n / 1024 / 1024).toFixed(1)} MB`
+  if (n >= 1024) return `${(n / 1024).toFixed(1)} KB`
+  return `${n} B`
+}
+
+interface VoiceOptions {
+  cache?: AudioCache
+  // 返回 true 时放弃发送（例如队列 skip）
+  aborted?: () => boolean
+  // 收集已发送的语音（及分段标记）消息 id，用于撤回
+  ids?: any[]
+  pool?: TranscodePool
+  // 需要排队等待转码时回调排队位置（从 1 开始）
+  onQueued?: (position: number) => void
+}
+
+// 转码任务池：限制同时进行的转码数量，各频道轮流调度；相同 key 的并发请求共享同一个任务
+interface TranscodePool {
+  run<T>(key: string, channel: string, task: () => Promise<T>, onQueued?: (position: number) => void): Promise<T>
+}
+
+function createTranscodePool(limit: number): TranscodePool {
+  interface Job {
+    key: string
+    task: () => Promise<any>
+    resolve: (value: any) => void
+    reject: (reason: any) => void
+  }
+
+  const inflight = new Map<string, Promise<any>>()
+  // 各频道的等待队列，以及轮转顺序
+  const waiting = new Map<string, Job[]>()
+  const channels: string[] = []
+  let active = 0
+
+  // 按调度顺序展开的等待任务：各频道依次取一个
+  function order(): Job[] {
+    const lists = channels.map(c => waiting.get(c)!)
+    const out: Job[] = []
+    for (let i = 0; lists.some(l => i < l.length); i++) {
+      for (const list of lists) if (i < list.length) out.push(list[i])
+    }
+    return out
+  }
+
+  function position(key: string) {
+    return order().findIndex(job => job.key === key) + 1
+  }
+
+  function next() {
+    while (active < limit && channels.length) {
+      const channel = channels.shift()!
+      const list = waiting.get(channel)!
+      const job = list.shift()!
+      if (list.length) channels.push(channel)
+      else waiting.delete(channel)
+      active++
+      job.task().then(job.resolve, job.reject).finally(() => {
+        active--
+        next()
+      })
+    }
+  }
+
+  return {
+    run(key, channel, task, onQueued) {
+      const existing = inflight.get(key)
+      if (existing) {
+        const pos = position(key)
+        if (pos) onQueued?.(pos)
+        return existing
+      }
+
+      const promise = new Promise<any>((resolve, reject) => {
+        if (!waiting.has(channel)) {
+          waiting.set(channel, [])
+          channels.push(channel)
+        }
+        waiting.get(channel)!.push({ key, task, resolve, reject })
+      })
+      inflight.set(key, promise)
+      const cleanup = () => inflight.delete(key)
+      promise.then(cleanup, cleanup)
+
+      next()
+      const pos = position(key)
+      if (pos) onQueued?.(pos)
+      return promise
+    },
+  }
+}
+
+// 分段缓存：主键存段数，各段存为 key#序号
+const PARTS_MIME = 'application/x-music-parts'
+
+async function loadCachedParts(cache: AudioCache, key: string) {
+  const head = await cache.get(key)
+  if (!head) return
+  if (head.mime !== PARTS_MIME) return [head]
+  const parts: { buffer: Buffer, mime: string }[] = []
+  for (let i = 1; i <= Number(head.buffer.toString()); i++) {
+    const part = await cache.get(`${key}#${i}`)
+    if (!part) return
+    parts.push(part)
+  }
+  return parts
+}
+
+async function saveCachedParts(cache: AudioCache, key: string, parts: { buffer: Buffer, mime: string }[]) {
+  if (parts.length === 1) return await cache.set(key, parts[0].buffer, parts[0].mime)
+  for (let i = 0; i < parts.length; i++) await cache.set(`${key}#${i + 1}`, parts[i].buffer, parts[i].mime)
+  await cache.set(key, Buffer.from(String(parts.length)), PARTS_MIME)
+}
+
+interface ResolvedSong {
+  item: SearchItem
+  url: string
+  br?: number
+}
+
+// 解析直链（降码率 → 备用音源）并检查时长；失败时已提示用户
+async function prepareSong(ctx: Context, cfg: Config, opts: MusicOptions, session: Session, item: SearchItem, tipIds: any[]): Promise<ResolvedSong | undefined> {
+  const resolved = await resolveSongUrl(ctx, cfg, item)
+  let song: ResolvedSong | undefined = resolved.url ? { item, url: resolved.url, br: resolved.br } : undefined
+
+  // 原音源拿不到直链：到其他音源搜索同一首歌
+  if (!song && cfg.fallbackSources.length) {
+    const alt = await findOnOtherSources(ctx, cfg, item)
+    if (alt) {
+      song = alt
+      logger.info(`song served by fallback source ${itemSource(alt.item, cfg)}`)
+      try {
+        const id = await session.send(cfg.fallbackNotice.replace('{source}', sourceLabel(itemSource(alt.item, cfg))))
+        if (id !== null && id !== undefined) tipIds.push(id)
+      } catch {}
+    }
+  }
+
+  if (!song) {
+    logger.warn(`no url from api, lastErr=${resolved.lastErr?.message || resolved.lastErr}`)
+    await session.send(cfg.getSongFailed)
+    return
+  }
+
+  // 搜索结果没有时长时用 ffprobe 读取真实时长
+  if (cfg.probeDuration && (durationCheckEnabled(cfg, opts) || opts.start) && !pickDurationSec(song.item)) {
+    const sec = await ffprobeDuration(cfg, song.url)
+    if (sec) song = { ...song, item: { ...song.item, duration: Math.round(sec) } }
+  }
+
+  // 起始时间超出歌曲时长：拒绝，而不是发送整首
+  const durSec = pickDurationSec(song.item)
+  if (opts.start && durSec && opts.start >= durSec) {
+    await session.send(`起始时间超出歌曲时长（${fmtDuration(durSec)}），已取消发送。`)
+    return
+  }
+
+  // 时长限制
+  if (durationLimited(cfg, opts, song.item)) {
+    await session.send(durationExceededText(cfg, song.item))
+    return
+  }
+
+  return song
+}
+
+// 大小限制：确定需要下载时先通过 HEAD / Range 请求读取文件大小；超限时已提示用户，返回 false
+async function checkDownloadSize(ctx: Context, cfg: Config, session: Session, url: string): Promise<boolean> {
+  if (!(cfg.maxDownloadMB > 0)) return true
+  const size = await probeContentLength(ctx, cfg, url)
+  if (!size || size <= cfg.maxDownloadMB * 1024 * 1024) return true
+  logger.info(`audio too large: ${size} bytes > ${cfg.maxDownloadMB}MB`)
+  await session.send(sizeExceededText(cfg, size))
+  return false
+}
+
+function sizeExceededText(cfg: Config, size: number) {
+  return cfg.sizeExceeded
+    .replace('{size}', (size / 1024 / 1024).toFixed(1))
+    .replace('{limit}', String(cfg.maxDownloadMB))
+}
+
+// 发送语音：直链，或下载 → ffmpeg 转码 → buffer；失败时已提示用户
+// 歌曲页面（卡片点击跳转），未知音源时使用音频直链
+function songPageUrl(item: SearchItem, cfg: Config, fallback: string) {
+  const id = toId(item?.id ?? item?.songid)
+  if (!id) return fallback
+  switch (itemSource(item, cfg)) {
+    case 'netease': return `https://music.163.com/#/song?id=${id}`
+    case 'tencent': return `https://y.qq.com/n/ryqq/songDetail/${id}`
+    case 'kuwo': return `https://www.kuwo.cn/play_detail/${id}`
+    default: return fallback
+  }
+}
+
+// OneBot 自定义音乐卡片（music 消息段），通过 internal API 直接发送；返回是否成功
+async function sendMusicCard(ctx: Context, cfg: Config, session: Session, song: ResolvedSong, ids: any[]): Promise<boolean> {
+  if (session.platform !== 'onebot') return false
+  const internal = (session.bot as any)?.internal
+  if (!internal) return false
+  const artist = pickArtist(song.item)
+  const data = {
+    type: 'custom',
+    url: songPageUrl(song.item, cfg, song.url),
+    audio: song.url,
+    title: pickName(song.item),
+    content: artist || undefined,
+    image: await resolveCover(ctx, cfg, song.item),
+  }
+  const message = [{ type: 'music', data }]
+  try {
+    const res = session.isDirect
+      ? await internal.sendPrivateMsg(session.userId, message)
+      : await internal.sendGroupMsg(session.guildId, message)
+    const id = res?.message_id ?? res
+    if (id !== null && id !== undefined) ids.push(String(id))
+    return true
+  } catch (e: any) {
+    logger.warn(`send music card failed: ${e?.message || e}`)
+    return false
+  }
+}
+
+async function sendVoice(ctx: Context, cfg: Config, opts: MusicOptions, session: Session, song: ResolvedSong, options: VoiceOptions = {}): Promise<boolean> {
+  const { url, br } = song
+  const { cache, pool, aborted, onQueued, ids = [] } = options
+  const profile = platformProfile(cfg, session.platform)
+  // 截取片段只能在 ffmpeg 中完成，因此 record 模式下也改走 buffer
+  const clip = clipRange(cfg, opts, song.item)
+  const filters = audioFilters(cfg, opts)
+
+  // 音乐卡片：只能播放完整原曲，需要截取 / 音效时直接发语音
+  if (cfg.sendMode === 'card' && !clip && !filters.length) {
+    if (await sendMusicCard(ctx, cfg, session, song, ids)) return true
+    logger.info('music card unavailable, falling back to voice')
+  }
+  // 卡片发送失败时按 record 处理
+  const sendMode = cfg.sendMode === 'card' ? 'record' : cfg.sendMode
+  // 开启分段且歌曲可能超过单段时长时同样需要转码
+  const durSec = pickDurationSec(song.item)
+  const needSplit = cfg.splitSegmentSec > 0 && (!durSec || durSec > cfg.splitSegmentSec)
+  const needTranscode =
+    !!clip ||
+    needSplit ||
+    filters.length > 0 ||
+    cfg.forceTranscode ||
+    sendMode === 'buffer' ||
+    isLikelyWma(url) ||
+    (br !== undefined && br >= 320) // 高码率更建议走 buffer
+
+  try {
+    if (!needTranscode && sendMode === 'record') {
+      // 直链：快，但 wma/风控时可能失败
+      logger.info(`sending direct audio url to session: ${url}`)
+      const id = await session.send(h.audio(url))
+      if (id !== null && id !== undefined) ids.push(id)
+    } else {
+      // 稳定模式：下载 → ffmpeg 转码（按 transcodeFormat → transcodeFallback 依次尝试）→ buffer 发送
+      const key = audioCacheKey(cfg, song, clip, filters, profile?.sampleRate)
+      let parts = cache && key ? await loadCachedParts(cache, key).catch(() => undefined) : undefined
+      if (parts) {
+        logger.info(`cache hit: ${key} (${parts.length} part(s))`)
+      } else {
+        if (!await checkDownloadSize(ctx, cfg, session, url)) return false
+        const job = async () => {
+          // 边下载边转码：下载流直接写入 ffmpeg
+          logger.info(`starting streamed transcode: ${url}, chain=${transcodeChain(cfg).join('>')}`)
+          const out = await transcodeParts(ctx, httpStream(ctx, url, cfg), cfg, { br, clip, filters, sampleRate: profile?.sampleRate })
+          if (cache && key) await saveCachedParts(cache, key, out).catch(e => logger.warn(`cache write failed: ${e?.message || e}`))
+          return out
+        }
+        // 无法确定歌曲时不合并任务
+        const jobKey = key ?? `${url}#${Date.now()}:${Math.random()}`
+        parts = pool
+          ? await pool.run(jobKey, `${session.platform}:${session.channelId}`, job, onQueued)
+          : await job()
+      }
+
+      // 平台对单条语音的大小限制
+      const maxBytes = (profile?.maxSizeMB ?? 0) * 1024 * 1024
+      if (maxBytes > 0 && parts.some(p => p.buffer.length > maxBytes)) {
+        logger.warn(`voice exceeds ${profile!.platform} size limit ${profile!.maxSizeMB}MB`)
+        await session.send(`语音超过当前平台的大小限制（${profile!.maxSizeMB}MB），可开启分段发送或用 --length 截取片段。`)
+        return false
+      }
+
+      for (let i = 0; i < parts.length; i++) {
+        // 转码期间被取消（例如队列 skip）则不再发送
+        if (aborted?.()) return false
+        try {
+          if (parts.length > 1) {
+            const id = await session.send(`🎵 ${songLabel(song.item)}（${i + 1}/${parts.length}）`)
+            if (id !== null && id !== undefined) ids.push(id)
+          }
+          const id = await session.send(h.audio(parts[i].buffer, parts[i].mime))
+          if (id !== null && id !== undefined) ids.push(id)
+        } catch (e: any) {
+          if (i === 0) throw e
+          // 已经发出部分分段：停止发送剩余分段，不再给出整首失败的提示
+          logger.warn(`send part ${i + 1}/${parts.length} failed: ${e?.message || e}`)
+          await session.send(`第 ${i + 1}/${parts.length} 段发送失败，已停止发送剩余部分。`).catch(() => {})
+          return false
+        }
+      }
+    }
+    return true
+  } catch (e: any) {
+    const msg = e?.message || String(e)
+    logger.warn(`send failed: ${msg}`)
+    // 没有 Content-Length 时下载中途超限
+    if (e instanceof DownloadTooLargeError) {
+      await session.send(sizeExceededText(cfg, e.size)).catch(() => {})
+      return false
+    }
+    if ((e as any)?.stderr) logger.warn(`ffmpeg stderr: ${(e as any).stderr}`)
+    // 给用户更明确提示：高码率 wma 说明
+    await session.send(
+      `获取/发送失败：\n` +
+      `1) 320k 以上常返回 wma，建议将 br 改为 192/128；\n` +
+      `2) 或开启【强制转码】并选择 buffer 发送（downloads+ffmpeg+silk/NapCat 转码更稳）。`
+    )
+    return false
+  }
+}
+
+// 以文件发送：320k 及以下转为 mp3，无损保留为 flac；写入标签并嵌入封面
+async function ffmpegTaggedFile(ctx: Context, cfg: Config, song: ResolvedSong, format: 'mp3' | 'flac'): Promise<Buffer> {
+  const dir = await mkdtemp(join(tmpdir(), 'music-to-voice-'))
+  try {
+    const args = ['-hide_banner', '-loglevel', 'error', '-i', 'pipe:0']
+    let cover: Buffer | undefined
+    const coverUrl = await resolveCover(ctx, cfg, song.item)
+    if (coverUrl) {
+      try {
+        cover = Buffer.from(await ctx.http.get(coverUrl, { responseType: 'arraybuffer', timeout: cfg.requestTimeoutMs }))
+      } catch (e: any) {
+        logger.warn(`download cover failed: ${e?.message || e}`)
+      }
+    }
+    if (cover) {
+      await writeFile(join(dir, 'cover.jpg'), cover)
+      args.push(
+        '-i', join(dir, 'cover.jpg'),
+        '-map', '0:a', '-map', '1:v',
+        '-c:v', 'mjpeg',
+        '-disposition:v', 'attached_pic',
+        '-metadata:s:v', 'title=Album cover',
+        '-metadata:s:v', 'comment=Cover (front)',
+      )
+    } else {
+      args.push('-map', '0:a')
+    }
+    if (format === 'mp3') {
+      const br = song.br && song.br < 320 ? song.br : 320
+      args.push('-c:a', 'libmp3lame', '-b:a', `${br}k`, '-id3v2_version', '3')
+    } else {
+      args.push('-c:a', 'flac')
+    }
+    const tags = { title: pickName(song.item), artist: pickArtist(song.item), album: pickAlbum(song.item) }
+    for (const [key, value] of Object.entries(tags)) {
+      if (value) args.push('-metadata', `${key}=${value}`)
+    }
+    // flac 需要回写文件头，因此输出到临时文件而不是 pipe
+    const out = join(dir, `out.${format}`)
+    args.push('-y', out)
+    await runFfmpeg(httpStream(ctx, song.url, cfg), args, cfg, `ffmpegTaggedFile(${format})`, false)
+    return await readFile(out)
+  } finally {
+    await rm(dir, { recursive: true, force: true }).catch(() => {})
+  }
+}
+
+function audioFileName(item: SearchItem, ext: string) {
+  const artist = pickArtist(item)
+  const base = `${artist ? `${artist} - ` : ''}${pickName(item)}`
+  return `${base.replace(/[\\/:*?"<>|\r\n]+/g, '_').slice(0, 120)}.${ext}`
+}
+
+async function sendAudioFile(ctx: Context, cfg: Config, opts: MusicOptions, session: Session, song: ResolvedSong, options: VoiceOptions = {}): Promise<boolean> {
+  const { pool, onQueued, ids = [] } = options
+  const format = (song.br ?? 0) >= 740 ? 'flac' : 'mp3'
+  try {
+    if (!await checkDownloadSize(ctx, cfg, session, song.url)) return false
+    const job = () => ffmpegTaggedFile(ctx, cfg, song, format)
+    const key = `file:${audioCacheKey(cfg, song) ?? `${song.url}#${Date.now()}:${Math.random()}`}:${format}`
+    const buffer = pool
+      ? await pool.run(key, `${session.platform}:${session.channelId}`, job, onQueued)
+      : await job()
+    // 超过大小上限时改发语音
+    if (cfg.fileMaxMB > 0 && buffer.length > cfg.fileMaxMB * 1024 * 1024) {
+      logger.info(`audio file ${buffer.length} bytes exceeds ${cfg.fileMaxMB}MB, sending voice instead`)
+      return await sendVoice(ctx, cfg, opts, session, song, options)
+    }
+    const mime = format === 'flac' ? 'audio/flac' : 'audio/mpeg'
+    const id = await session.send(h.file(buffer, mime, { title: audioFileName(song.item, format) }))
+    if (id !== null && id !== undefined) ids.push(id)
+    return true
+  } catch (e: any) {
+    logger.warn(`send file failed: ${e?.message || e}`)
+    // 下载超限时改发语音同样需要下载，直接提示
+    if (e instanceof DownloadTooLargeError) {
+      await session.send(sizeExceededText(cfg, e.size)).catch(() => {})
+      return false
+    }
+    if ((e as any)?.stderr) logger.warn(`ffmpeg stderr: ${(e as any).stderr}`)
+    await session.send('音频文件生成失败，改为发送语音。').catch(() => {})
+    return await sendVoice(ctx, cfg, opts, session, song, options)
+  }
+}
+
+function deliverSong(ctx: Context, cfg: Config, opts: MusicOptions, session: Session, song: ResolvedSong, options: VoiceOptions = {}) {
+  return opts.asFile ? sendAudioFile(ctx, cfg, opts, session, song, options) : sendVoice(ctx, cfg, opts, session, song, options)
+}
+
+async function sendSongInfo(ctx: Context, cfg: Config, session: Session, item: SearchItem, br: number | undefined, ids: any[]) {
+  try {
+    const cover = cfg.songInfoCover ? await resolveCover(ctx, cfg, item) : undefined
+    const text = renderSongInfo(cfg, item, br)
+    const id = await session.send(cover ? [h.image(cover), text] : text)
+    if (id !== null && id !== undefined) ids.push(id)
+  } catch (e: any) {
+    logger.warn(`send song info failed: ${e?.message || e}`)
+  }
+}
+
+// 排队提示，消息 id 与“生成中”提示一起撤回；replaceIds 中的提示（“生成中”）在真正排队时撤回，换成排队位置
+function queuedNotice(session: Session, conf: Config, tipIds: any[], replaceIds: any[] = []) {
+  return (position: number) => {
+    const stale = replaceIds.splice(0)
+    if (stale.length) safeRecall(session, stale)
+    session.send(conf.queuedTip.replace('{position}', String(position))).then((id) => {
+      if (id !== null && id !== undefined) tipIds.push(id)
+    }, () => {})
+  }
+}
+
+interface PlayOptions {
+  cache?: AudioCache
+  pool?: TranscodePool
+  // 选择后是否附带歌词
+  withLyric?: boolean
+  // 歌单消息 id，发送成功后一并撤回
+  menuIds?: any[]
+  // 进入解析 / 发送阶段时回调（选择会话据此切换状态）
+  onStage?: (state: 'resolving' | 'sending') => void
+}
+
+// 解析直链并发送语音（含提示、歌曲信息、歌词与撤回），返回是否发送成功
+async function playSong(ctx: Context, cfg: Config, opts: MusicOptions, session: Session, item: SearchItem, options: PlayOptions = {}) {
+  const { cache, pool, withLyric, menuIds = [], onStage } = options
+  onStage?.('resolving')
+  // 生成中提示：降码率 / 备用音源 / 时长检测期间即有反馈，转码需要排队时换成排队位置
+  const tipIds: any[] = []
+  const generationIds: any[] = []
+  try {
+    const id = await session.send(cfg.generationTip)
+    if (id !== null && id !== undefined) generationIds.push(id)
+  } catch {}
+
+  // 先拿直链（降码率 / 备用音源），并检查时长
+  const song = await prepareSong(ctx, cfg, opts, session, item, tipIds)
+  if (!song) {
+    if (cfg.recallMessages.includes('generationTip') && cfg.tipRecallSec > 0) {
+      ctx.setTimeout(() => safeRecall(session, [generationIds, tipIds]), cfg.tipRecallSec * 1000)
+    }
+    return false
+  }
+  const chosen = song.item
+  const finalBr = song.br
+
+  // 歌曲信息卡片（语音之前）
+  onStage?.('sending')
+  const infoIds: any[] = []
+  if (cfg.songInfo === 'before') await sendSongInfo(ctx, cfg, session, chosen, finalBr, infoIds)
 
-  items.slice(0, cfg.searchCount).forEach((it, i) => {
-    const idx = i + 1
-    const title = pickName(it)
-    const artist = pickArtist(it)
-    const dur = fmtDuration(pickDurationSec(it))
-    // ✅ 不再出现 [--:--]：拿不到就不显示
-    const suffix = dur ? `  [${dur}]` : ''
-    lines.push(`${idx}. ${title}${artist ? ` - ${artist}` : ''}${suffix}`)
+  const voiceIds: any[] = []
+  const sentOk = await deliverSong(ctx, cfg, opts, session, song, {
+    cache, pool, ids: voiceIds, onQueued: queuedNotice(session, cfg, tipIds, generationIds),
   })
 
-  lines.push('', `指令：${cfg.prevPageCmd} / ${cfg.nextPageCmd}`)
-  if (cfg.showExitHint) lines.push(`退出：${cfg.exitCmds.join(' / ')}`)
-  lines.push('回复序号即可点歌。')
+  if (sentOk && cfg.songInfo === 'after') await sendSongInfo(ctx, cfg, session, chosen, finalBr, infoIds)
+  if (sentOk && withLyric) await sendLyric(ctx, cfg, session, chosen)
 
-  return lines.join('\n')
+  if (!cfg.recallOnlyAfterSuccess || sentOk) {
+    if (cfg.recallMessages.includes('generationTip') && cfg.tipRecallSec > 0) {
+      ctx.setTimeout(() => safeRecall(session, [generationIds, tipIds]), cfg.tipRecallSec * 1000)
+    }
+    if (cfg.recallMessages.includes('songInfo') && cfg.infoRecallSec > 0 && infoIds.length) {
+      ctx.setTimeout(() => safeRecall(session, infoIds), cfg.infoRecallSec * 1000)
+    }
+    if (cfg.recallMessages.includes('songList') && cfg.menuRecallSec > 0 && menuIds.length) {
+      if (!(cfg.keepMenuIfSendFailed && !sentOk)) {
+        ctx.setTimeout(() => safeRecall(session, menuIds), cfg.menuRecallSec * 1000)
+      }
+    }
+  }
+
+  // 已发出的语音（含部分发送成功的分段）按 voiceRecallSec 撤回
+  if (cfg.recallMessages.includes('voice') && cfg.voiceRecallSec > 0 && voiceIds.length) {
+    ctx.setTimeout(() => safeRecall(session, voiceIds), cfg.voiceRecallSec * 1000)
+  }
+
+  return sentOk
+}
+
+// 选择会话：中间件与指令共用同一套流程；会话只在 menu 状态接受输入，空闲超时在每次交互后重置
+interface SelectionSessions {
+  pending: Map<PendingKey, PendingState>
+  openSession(k: PendingKey, st: PendingState): void
+  closeSession(k: PendingKey, st: PendingState): void
+  handleInput(session: Session, k: PendingKey, st: PendingState, input: string, strict: boolean): Promise<boolean>
+  handleSelection(session: Session, k: PendingKey, st: PendingState, indices: number[]): Promise<void>
+  rejectSelection(session: Session, k: PendingKey, st: PendingState): Promise<void>
+  showPage(session: Session, st: PendingState, page: number): Promise<void>
 }
 
-async function safeRecall(session: Session, messageIds: any[]) {
-  for (const id of messageIds) {
+interface SelectionOptions {
+  cache?: AudioCache
+  pool?: TranscodePool
+  // “+序号”加入播放队列，返回提示文字
+  enqueue(session: Session, cfg: Config, opts: MusicOptions, item: SearchItem): string
+}
+
+export function createSelectionSessions(ctx: Context, options: SelectionOptions): SelectionSessions {
+  const pending = new Map<PendingKey, PendingState>()
+
+  function openSession(k: PendingKey, st: PendingState) {
+    const prev = pending.get(k)
+    if (prev) closeSession(k, prev)
+    pending.set(k, st)
+    touchSession(k, st)
+  }
+
+  function touchSession(k: PendingKey, st: PendingState) {
+    st.timer?.()
+    st.timer = ctx.setTimeout(() => {
+      st.timer = undefined
+      if (pending.get(k) !== st || st.state !== 'menu') return
+      closeSession(k, st)
+      st.session?.send(st.config.promptTimeout).catch(() => {})
+    }, st.config.promptTimeoutSec * 1000)
+  }
+
+  function closeSession(k: PendingKey, st: PendingState) {
+    st.state = 'done'
+    st.timer?.()
+    st.timer = undefined
+    if (pending.get(k) === st) pending.delete(k)
+  }
+
+  // 处理会话中的一条输入，返回是否已消费；strict 为 true 时无法识别的输入也视为选择失败
+  async function handleInput(session: Session, k: PendingKey, st: PendingState, input: string, strict: boolean): Promise<boolean> {
+    // 以会话创建时解析出的有效配置为准
+    const cfg = st.config
+    // 解析 / 发送中不再接受新的选择
+    if (st.state !== 'menu') return false
+    st.session = session
+    touchSession(k, st)
+
+    if (isExitInput(input, cfg)) {
+      closeSession(k, st)
+      await session.send(cfg.exitPrompt)
+      return true
+    }
+
+    // 翻页 / 跳页
+    const target = pageTarget(input, st)
+    if (target !== undefined) {
+      await showPage(session, st, target)
+      return true
+    }
+
+    // “+序号”：加入播放队列，保留歌单以便继续添加
+    const plus = /^\+\s*(\d+)$/.exec(input)
+    if (plus) {
+      const n = Number(plus[1])
+      const item = st.items[n - 1]
+      await session.send(item ? options.enqueue(session, cfg, st.options, item) : outOfRangeText(cfg, n, st.items.length))
+      return true
+    }
+
+    // 序号 / 多选 / 范围 / 中文数字 / 歌名片段
+    const picked = parseSelection(input, st.items, strict)
+    if (picked === 'invalid' || (!picked && strict)) {
+      await rejectSelection(session, k, st)
+      return true
+    }
+    if (!picked) return false
+    await handleSelection(session, k, st, picked)
+    return true
+  }
+
+  async function handleSelection(session: Session, k: PendingKey, st: PendingState, indices: number[]) {
+    const cfg = st.config
+    const chosen = indices.map(n => st.items[n - 1])
+    if (chosen.some(it => !toId(it?.id ?? it?.songid))) {
+      closeSession(k, st)
+      await session.send(cfg.getSongFailed)
+      return
+    }
+
+    // 多选时按顺序逐首发送，歌单在最后一首之后再撤回
+    st.timer?.()
+    st.timer = undefined
     try {
-      // 支持多种 id 形态：string/number/object
-      if (id === null || id === undefined) continue
-      // 常见 adapter 返回 message id 字符串/数字，直接传给 deleteMessage
-      // 有些适配器返回对象 { id, messageId, msgId }，尝试抽取字段
-      if (typeof id === 'object') {
-        const candidate = (id.messageId ?? id.msgId ?? id.id ?? id)
-        await session.bot.deleteMessage(session.channelId!, candidate as any)
+      for (let i = 0; i < chosen.length; i++) {
+        const last = i === chosen.length - 1
+        await playSong(ctx, cfg, st.options, session, chosen[i], {
+          cache: options.cache,
+          pool: options.pool,
+          withLyric: st.withLyric,
+          menuIds: last ? st.menuMessageIds : [],
+          onStage: (state) => { st.state = state },
+        })
+      }
+    } finally {
+      closeSession(k, st)
+    }
+  }
+
+  // 无法识别的选择：重新提示，超过重试次数后退出
+  async function rejectSelection(session: Session, k: PendingKey, st: PendingState) {
+    const cfg = st.config
+    st.retries = (st.retries ?? 0) + 1
+    const left = cfg.selectionRetries - st.retries + 1
+    if (left <= 0) {
+      closeSession(k, st)
+      await session.send(cfg.invalidNumber)
+      return
+    }
+    await session.send(cfg.selectionRetryPrompt.replace('{left}', String(left)))
+  }
+
+  // 翻页（或跳到第 N 页）并发送新歌单
+  async function showPage(session: Session, st: PendingState, page: number) {
+    const cfg = st.config
+    try {
+      let items: SearchItem[]
+      if (st.allItems) {
+        // 本地分页：在已拉取的结果中切片
+        const pages = Math.max(1, Math.ceil(st.allItems.length / cfg.pageSize))
+        if (page > pages) {
+          await session.send(`已经是最后一页了（共 ${pages} 页）。`)
+          return
+        }
+        items = st.allItems.slice((page - 1) * cfg.pageSize, page * cfg.pageSize)
       } else {
-        await session.bot.deleteMessage(session.channelId!, id as any)
+        items = await searchSongs(ctx, cfg, st.keyword, page)
+        if (!items.length) {
+          await session.send('没有更多结果了。')
+          return
+        }
       }
-    } catch (e) {
-      // 忽略失败，但记录下以便排查
-      logger.warn(`safeRecall failed to delete message id=${JSON.stringify(id)}: ${(e as any)?.message || e}`)
+      st.page = page
+      st.items = items
+      st.menuMessageIds = []
+      const menu = await renderMenu(ctx, cfg, st.keyword, page, items, st.allItems?.length)
+      const id = await session.send(menu)
+      if (id !== null && id !== undefined) st.menuMessageIds.push(id)
+    } catch (e: any) {
+      logger.warn(`search failed: ${e?.message || e}`)
+      await session.send(cfg.getSongFailed)
     }
   }
+
+  return { pending, openSession, closeSession, handleInput, handleSelection, rejectSelection, showPage }
 }
 
 export function apply(ctx: Context, cfg: Config) {
-  const pending = new Map<PendingKey, PendingState>()
+  ctx.model.extend('music_to_voice_settings', {
+    id: 'string',
+    overrides: 'json',
+  }, { primary: 'id' })
+
+  // 群/频道设置缓存（写入均经由 music.config，因此无需过期）
+  const settingsCache = new Map<string, Partial<Config>>()
+
+  async function loadSettings(id: string): Promise<Partial<Config>> {
+    const cached = settingsCache.get(id)
+    if (cached) return cached
+    const [row] = await ctx.database.get('music_to_voice_settings', id)
+    const overrides = row?.overrides ?? {}
+    settingsCache.set(id, overrides)
+    return overrides
+  }
+
+  // 有效配置：全局 → 群 → 频道
+  async function resolveConfig(session: Session): Promise<Config> {
+    // 全局 → 平台输出配置 → 群 → 频道
+    let out = applyProfile(cfg, session.platform)
+    if (!ctx.database) return out
+    for (const id of [settingsId(session, 'guild'), settingsId(session, 'channel')]) {
+      if (!id) continue
+      try {
+        out = applySettings(out, await loadSettings(id))
+      } catch (e: any) {
+        logger.warn(`load settings ${id} failed: ${e?.message || e}`)
+      }
+    }
+    return out
+  }
 
   // 启动时检测 ffmpeg（可配置禁用）
   if (cfg.checkFfmpegOnStart) {
@@ -603,137 +3052,112 @@ export function apply(ctx: Context, cfg: Config) {
     })()
   }
 
-  // 处理选择的通用函数（抽取以便中间件与命令共用）
-  async function handleSelection(session: Session, st: PendingState, n: number, k: PendingKey) {
-    if (!session) return
-    if (!Number.isInteger(n) || n < 1 || n > st.items.length) {
-      pending.delete(k)
-      await session.send(cfg.invalidNumber)
-      return
-    }
-
-    const chosen = st.items[n - 1]
-    const songId = toId(chosen?.id ?? chosen?.songid)
-    if (!songId) {
-      pending.delete(k)
-      await session.send(cfg.getSongFailed)
-      return
-    }
-
-    // 生成中提示
-    const tipIds: any[] = []
-    try {
-      const id = await session.send(cfg.generationTip)
-      if (id !== null && id !== undefined) tipIds.push(id)
-    } catch {}
-
-    // 先拿直链：支持降码率
-    const brFallback: number[] = cfg.br === 999
-      ? [999, 740, 320, 192, 128]
-      : cfg.br === 740
-        ? [740, 320, 192, 128]
-        : cfg.br === 320
-          ? [320, 192, 128]
-          : cfg.br === 192
-            ? [192, 128]
-            : [128]
-
-    let finalUrl: string | undefined
-    let finalBr: number | undefined
-    let lastErr: any
-
-    for (const br of brFallback) {
-      try {
-        const api = buildUrlUrl(cfg, songId, br)
-        const resp = await httpGetJson(ctx, api, cfg)
-        const parsed = safeJsonParse(resp)
-        const r: UrlResp = parsed ?? (resp as any)?.data ?? resp
-        if (r?.url) {
-          finalUrl = r.url
-          finalBr = br
-          logger.info(`got url for id=${songId} br=${br} -> ${finalUrl}`)
-          break
-        } else {
-          logger.info(`no url returned for id=${songId} br=${br}`)
+  // 后台探测冷却中的 API 镜像，恢复后提前启用
+  if (apiMirrors(cfg).length > 1 && cfg.mirrorProbeIntervalSec > 0) {
+    logger.info(`api mirrors: ${apiMirrors(cfg).join(', ')} (${cfg.mirrorStrategy})`)
+    ctx.setInterval(async () => {
+      for (const base of apiMirrors(cfg)) {
+        const st = mirrorState(base)
+        if (st.unhealthyUntil <= Date.now()) continue
+        const start = Date.now()
+        try {
+          const resp = await httpGetJson(ctx, buildSearchUrl(cfg, base, 'test', 1), { ...cfg, requestRetry: 0 })
+          if (!normalizeSearchItems(resp).length) throw new Error('probe returned no result')
+          reportMirror(cfg, base, Date.now() - start)
+        } catch (e: any) {
+          if (cfg.debug) logger.info(`mirror probe failed: ${base}: ${e?.message || e}`)
         }
-      } catch (e: any) {
-        lastErr = e
       }
-    }
+    }, cfg.mirrorProbeIntervalSec * 1000)
+  }
 
-    if (!finalUrl) {
-      pending.delete(k)
-      logger.warn(`no url from api, lastErr=${lastErr?.message || lastErr}`)
-      await session.send(cfg.getSongFailed)
-      if (cfg.recallMessages.includes('generationTip') && cfg.tipRecallSec > 0) {
-        ctx.setTimeout(() => safeRecall(session, tipIds), cfg.tipRecallSec * 1000)
+  // 启动时检测 silk 编码器（全局或任一平台输出配置的转码链包含 silk 时）
+  const silkPlatforms = (cfg.platformProfiles || [])
+    .filter(p => transcodeChain(applyProfile(cfg, p.platform)).includes('silk'))
+    .map(p => p.platform)
+  if (transcodeChain(cfg).includes('silk') || silkPlatforms.length) {
+    ;(async () => {
+      const silk = await resolveSilkEncoder(ctx)
+      if (silk) {
+        logger.info(`silk encoder available: ${silk.name}`)
+      } else {
+        const rest = (cfg.transcodeFallback || []).filter(f => f !== 'silk')
+        const where = silkPlatforms.length ? `（使用 silk 的平台：${silkPlatforms.join(', ')}）` : ''
+        logger.warn(`silk encoder not available; silk 转码将失败，回退到：${rest.join(' → ') || '无'}${where}`)
       }
-      return
-    }
+    })()
+  }
 
-    const durSec = pickDurationSec(chosen)
-    if (cfg.maxSongDurationMin > 0 && durSec && durSec > cfg.maxSongDurationMin * 60) {
-      pending.delete(k)
-      await session.send(cfg.durationExceeded)
-      if (cfg.recallMessages.includes('generationTip') && cfg.tipRecallSec > 0) {
-        ctx.setTimeout(() => safeRecall(session, tipIds), cfg.tipRecallSec * 1000)
-      }
-      return
-    }
+  const audioCache = cfg.cacheEnabled
+    ? createAudioCache(resolve(ctx.baseDir, 'data', 'music-to-voice', 'cache'), cfg)
+    : undefined
+
+  const transcodePool = createTranscodePool(cfg.maxConcurrentTranscodes)
+
+  const { pending, openSession, handleInput } = createSelectionSessions(ctx, { cache: audioCache, pool: transcodePool, enqueue })
 
-    const needTranscode =
-      cfg.forceTranscode ||
-      cfg.sendMode === 'buffer' ||
-      isLikelyWma(finalUrl) ||
-      (finalBr !== undefined && finalBr >= 320)
+  // 播放队列：每个频道一个，按顺序逐首发送
+  const queues = new Map<string, PlayQueue>()
+  let disposed = false
+  ctx.on('dispose', () => {
+    disposed = true
+    queues.clear()
+  })
+
+  function getQueue(session: Session): PlayQueue {
+    const key = `${session.platform}:${session.channelId}`
+    let q = queues.get(key)
+    if (!q) queues.set(key, q = { entries: [], skip: false, running: false })
+    return q
+  }
 
-    let sentOk = false
+  function enqueue(session: Session, conf: Config, opts: MusicOptions, item: SearchItem): string {
+    if (durationLimited(conf, opts, item)) return durationExceededText(conf, item)
+    const q = getQueue(session)
+    if (q.entries.length >= cfg.queueMaxSize) return `播放队列已满（最多 ${cfg.queueMaxSize} 首）。`
+    q.entries.push({ item, config: conf, options: opts, session })
+    const pos = q.entries.length + (q.current ? 1 : 0)
+    if (!q.running) runQueue(q).catch(e => logger.warn(`queue error: ${e?.message || e}`))
+    return `已加入播放队列（第 ${pos} 位）：${songLabel(item)}`
+  }
 
+  async function runQueue(q: PlayQueue) {
+    q.running = true
     try {
-      if (!needTranscode && cfg.sendMode === 'record') {
-        logger.info(`sending direct audio url to session: ${finalUrl}`)
-        await session.send(h.audio(finalUrl))
-        sentOk = true
-      } else {
-        logger.info(`starting download for transcode: ${finalUrl}`)
-        const raw = await httpGetBuffer(ctx, finalUrl, cfg)
-        logger.info(`download complete, ${raw.length} bytes, starting transcode format=${cfg.transcodeFormat}`)
-        try {
-          const { buffer: outBuf, mime } = await ffmpegTranscode(raw, cfg, cfg.transcodeFormat, finalBr)
-          logger.info(`transcode succeeded, mime=${mime}, bytes=${outBuf.length}`)
-          await session.send(h.audio(outBuf, mime))
-          sentOk = true
-        } catch (e: any) {
-          logger.warn(`transcode failed: ${e?.message || e}; falling back to wav`)
-          if ((e as any)?.stderr) logger.warn(`ffmpeg stderr: ${(e as any).stderr}`)
-          const wav = await ffmpegToWavBuffer(raw, cfg)
-          await session.send(h.audio(wav, 'audio/wav'))
-          sentOk = true
+      while (!disposed && q.entries.length) {
+        const entry = q.entries.shift()!
+        const { session, config: conf, options: opts } = entry
+        q.current = entry
+        q.skip = false
+
+        const tipIds: any[] = []
+        if (cfg.queueAnnounce) {
+          try {
+            const rest = q.entries.length ? `（队列剩余 ${q.entries.length} 首）` : ''
+            const id = await session.send(`▶️ 正在播放：${songLabel(entry.item)}${rest}`)
+            if (id !== null && id !== undefined) tipIds.push(id)
+          } catch {}
         }
-      }
-    } catch (e: any) {
-      const msg = e?.message || String(e)
-      logger.warn(`send failed: ${msg}`)
-      if ((e as any)?.stderr) logger.warn(`ffmpeg stderr: ${(e as any).stderr}`)
-      await session.send(
-        `获取/发送失败：\n` +
-        `1) 320k 以上常返回 wma，建议将 br 改为 192/128；\n` +
-        `2) 或开启【强制转码】并选择 buffer 发送（downloads+ffmpeg+silk/NapCat 转码更稳）。`
-      )
-    }
 
-    if (!cfg.recallOnlyAfterSuccess || sentOk) {
-      if (cfg.recallMessages.includes('generationTip') && cfg.tipRecallSec > 0) {
-        ctx.setTimeout(() => safeRecall(session, tipIds), cfg.tipRecallSec * 1000)
-      }
-      if (cfg.recallMessages.includes('songList') && cfg.menuRecallSec > 0) {
-        if (!(cfg.keepMenuIfSendFailed && !sentOk)) {
-          ctx.setTimeout(() => safeRecall(session, st.menuMessageIds), cfg.menuRecallSec * 1000)
+        const song = await prepareSong(ctx, conf, opts, session, entry.item, tipIds)
+        const voiceIds: any[] = []
+        const sentOk = !!song && !q.skip && await deliverSong(ctx, conf, opts, session, song, {
+          cache: audioCache, pool: transcodePool, aborted: () => q.skip, ids: voiceIds, onQueued: queuedNotice(session, conf, tipIds),
+        })
+        if ((!conf.recallOnlyAfterSuccess || sentOk) && conf.recallMessages.includes('generationTip') && conf.tipRecallSec > 0) {
+          ctx.setTimeout(() => safeRecall(session, tipIds), conf.tipRecallSec * 1000)
         }
+        if (conf.recallMessages.includes('voice') && conf.voiceRecallSec > 0 && voiceIds.length) {
+          ctx.setTimeout(() => safeRecall(session, voiceIds), conf.voiceRecallSec * 1000)
+        }
+
+        q.current = undefined
+        if (q.entries.length && cfg.queueGapSec > 0) await sleep(cfg.queueGapSec * 1000)
       }
+    } finally {
+      q.current = undefined
+      q.running = false
     }
-
-    pending.delete(k)
   }
 
   // 中间件：拦截 pending 状态下的纯文本回复（例如群成员直接回复序号）
@@ -748,56 +3172,7 @@ export function apply(ctx: Context, cfg: Config) {
       const k = pendingKey(session, cfg)
       const st = pending.get(k)
       if (!st) return next()
-
-      // 若为控制指令
-      if (isExitInput(text, cfg)) {
-        pending.delete(k)
-        await session.send(cfg.exitPrompt)
-        return
-      }
-      if (text === cfg.nextPageCmd) {
-        st.page += 1
-        try {
-          const url = buildSearchUrl(cfg, st.keyword, st.page)
-          const resp = await httpGetJson(ctx, url, cfg)
-          const items = normalizeSearchItems(resp)
-          st.items = items
-          st.menuMessageIds = []
-          const txt = renderMenuText(cfg, st.keyword, st.page, items)
-          const id = await session.send(txt)
-          if (id !== null && id !== undefined) st.menuMessageIds.push(id)
-          pending.set(k, st)
-        } catch (e: any) {
-          logger.warn(`search failed: ${e?.message || e}`)
-          await session.send(cfg.getSongFailed)
-        }
-        return
-      }
-      if (text === cfg.prevPageCmd) {
-        st.page = Math.max(1, st.page - 1)
-        try {
-          const url = buildSearchUrl(cfg, st.keyword, st.page)
-          const resp = await httpGetJson(ctx, url, cfg)
-          const items = normalizeSearchItems(resp)
-          st.items = items
-          st.menuMessageIds = []
-          const txt = renderMenuText(cfg, st.keyword, st.page, items)
-          const id = await session.send(txt)
-          if (id !== null && id !== undefined) st.menuMessageIds.push(id)
-          pending.set(k, st)
-        } catch (e: any) {
-          logger.warn(`search failed: ${e?.message || e}`)
-          await session.send(cfg.getSongFailed)
-        }
-        return
-      }
-
-      // 数字选择
-      const n = Number(text)
-      if (Number.isInteger(n)) {
-        await handleSelection(session, st, n, k)
-        return
-      }
+      if (await handleInput(session, k, st, text, false)) return
     } catch (e: any) {
       logger.warn(`pending middleware error: ${e?.message || e}`)
     }
@@ -805,9 +3180,39 @@ export function apply(ctx: Context, cfg: Config) {
   })
 
   const cmd = ctx.command(`${cfg.command} <keyword:text>`, '点歌并发送语音')
+    .option('lyric', '-l 同时发送歌词')
+    .option('file', '-F 以音频文件发送（带标签与封面）')
+    .option('source', `-s <source:string> 指定音源（${SOURCE_VALUES.join('/')}）`, {
+      type: SOURCE_VALUES, authority: cfg.optionAuthority.source,
+    })
+    .option('br', `-b <br:number> 指定音质（${BR_VALUES.join('/')}）`, {
+      type: (v: string) => {
+        const n = Number(v) as BrValue
+        if (BR_VALUES.includes(n)) return n
+        throw new Error()
+      },
+      authority: cfg.optionAuthority.br,
+    })
+    .option('mode', `-m <mode:string> 发送方式（${SEND_MODES.join('/')}）`, {
+      type: SEND_MODES, authority: cfg.optionAuthority.mode,
+    })
+    .option('format', `-f <format:string> 转码格式（${TRANSCODE_FORMATS.join('/')}）`, {
+      type: TRANSCODE_FORMATS, authority: cfg.optionAuthority.format,
+    })
+    .option('effect', `-e <preset:string> 音效（${cfg.effectAllowlist.join('/')}）`, {
+      type: (v: string) => {
+        if (allowedEffects(cfg).some(p => p.name === v)) return v
+        throw new Error()
+      },
+      authority: cfg.optionAuthority.effect,
+    })
+    .option('start', '--start <time:string> 从指定时间开始（秒或 分:秒）', { type: timeOption })
+    .option('length', '--length <time:string> 只发送指定时长（秒或 分:秒）', { type: timeOption })
+    .example(`${cfg.command} -s tencent -b 192 晴天`)
+    .example(`${cfg.command} --start 1:05 --length 30 晴天`)
   for (const a of (cfg.alias || [])) cmd.alias(a)
 
-  cmd.action(async ({ session }, keyword) => {
+  cmd.action(async ({ session, options }, keyword) => {
     if (!session) return
 
   const k = pendingKey(session, cfg)
@@ -817,233 +3222,242 @@ export function apply(ctx: Context, cfg: Config) {
     const input = String(keyword ?? '').trim()
 
     // 如果当前处在选择态，优先解释输入为控制指令
-    if (st && input) {
-      if (isExitInput(input, cfg)) {
-        pending.delete(k)
-        await session.send(cfg.exitPrompt)
-        return
-      }
-      if (input === cfg.nextPageCmd) {
-        st.page += 1
-        try {
-          const url = buildSearchUrl(cfg, st.keyword, st.page)
-          const resp = await httpGetJson(ctx, url, cfg)
-          const items = normalizeSearchItems(resp)
-          st.items = items
-          st.menuMessageIds = []
-      const text = renderMenuText(cfg, st.keyword, st.page, items)
-      const id = await session.send(text)
-      if (id !== null && id !== undefined) st.menuMessageIds.push(id)
-          pending.set(k, st)
-        } catch (e: any) {
-          logger.warn(`search failed: ${e?.message || e}`)
-          await session.send(cfg.getSongFailed)
-        }
-        return
-      }
-      if (input === cfg.prevPageCmd) {
-        st.page = Math.max(1, st.page - 1)
-        try {
-          const url = buildSearchUrl(cfg, st.keyword, st.page)
-          const resp = await httpGetJson(ctx, url, cfg)
-          const items = normalizeSearchItems(resp)
-          st.items = items
-          st.menuMessageIds = []
-      const text = renderMenuText(cfg, st.keyword, st.page, items)
-      const id = await session.send(text)
-      if (id !== null && id !== undefined) st.menuMessageIds.push(id)
-          pending.set(k, st)
-        } catch (e: any) {
-          logger.warn(`search failed: ${e?.message || e}`)
-          await session.send(cfg.getSongFailed)
-        }
-        return
-      }
-
-      // 输入序号
-      const n = Number(input)
-      if (!Number.isInteger(n) || n < 1 || n > st.items.length) {
-        pending.delete(k)
-        await session.send(cfg.invalidNumber)
-        return
-      }
-
-      const chosen = st.items[n - 1]
-      const songId = toId(chosen?.id ?? chosen?.songid)
-      if (!songId) {
-        pending.delete(k)
-        await session.send(cfg.getSongFailed)
-        return
-      }
-
-      // 生成中提示
-      const tipIds: string[] = []
-      try {
-        const id = await session.send(cfg.generationTip)
-        if (typeof id === 'string') tipIds.push(id)
-      } catch {}
-
-      // 先拿直链：支持降码率
-      const brFallback: number[] = cfg.br === 999
-        ? [999, 740, 320, 192, 128]
-        : cfg.br === 740
-          ? [740, 320, 192, 128]
-          : cfg.br === 320
-            ? [320, 192, 128]
-            : cfg.br === 192
-              ? [192, 128]
-              : [128]
-
-      let finalUrl: string | undefined
-      let finalBr: number | undefined
-      let lastErr: any
-
-      for (const br of brFallback) {
-        try {
-          const api = buildUrlUrl(cfg, songId, br)
-          const resp = await httpGetJson(ctx, api, cfg)
-          // 兼容：有的适配器返回直接对象/字符串，有的把实际 payload 放在 data 字段
-          const parsed = safeJsonParse(resp)
-          // 优先使用 parsed，如果没有则尝试 resp.data，再回退到 resp
-          const r: UrlResp = parsed ?? (resp as any)?.data ?? resp
-          if (r?.url) {
-            finalUrl = r.url
-            finalBr = br
-            logger.info(`got url for id=${songId} br=${br} -> ${finalUrl}`)
-            break
-          } else {
-            logger.info(`no url returned for id=${songId} br=${br}`)
-          }
-        } catch (e: any) {
-          lastErr = e
-        }
-      }
+    if (st && input && await handleInput(session, k, st, input, true)) return
 
-      if (!finalUrl) {
-        pending.delete(k)
-  logger.warn(`no url from api, lastErr=${lastErr?.message || lastErr}`)
-        await session.send(cfg.getSongFailed)
-        // 撤回提示（可选）
-        if (cfg.recallMessages.includes('generationTip') && cfg.tipRecallSec > 0) {
-          ctx.setTimeout(() => safeRecall(session, tipIds), cfg.tipRecallSec * 1000)
-        }
-        return
-      }
+    // 新搜索
+    const kw = input
+    if (!kw) return '请输入关键词。'
 
-      // 时长限制（如果搜索项里能拿到 duration）
-      const durSec = pickDurationSec(chosen)
-      if (cfg.maxSongDurationMin > 0 && durSec && durSec > cfg.maxSongDurationMin * 60) {
-        pending.delete(k)
-        await session.send(cfg.durationExceeded)
-        if (cfg.recallMessages.includes('generationTip') && cfg.tipRecallSec > 0) {
-          ctx.setTimeout(() => safeRecall(session, tipIds), cfg.tipRecallSec * 1000)
-        }
+    const musicOptions: MusicOptions = {
+      source: options?.source as SourceValue | undefined,
+      br: options?.br as BrValue | undefined,
+      sendMode: options?.mode as SendMode | undefined,
+      transcodeFormat: options?.format as TranscodeFormat | undefined,
+      start: options?.start as number | undefined,
+      length: options?.length as number | undefined,
+      effect: options?.effect as string | undefined,
+      asFile: !!options?.file,
+    }
+    const opts = withOptions(await resolveConfig(session), musicOptions)
+
+    // 分享链接：直接解析并发送，不进入歌单
+    if (opts.shareLinkDetect) {
+      const link = await parseShareLink(ctx, opts, kw)
+      if (link) {
+        const item = await lookupSong(ctx, opts, link.source, link.id)
+        if (!item) return opts.getSongFailed
+        await playSong(ctx, opts, musicOptions, session, item, { cache: audioCache, pool: transcodePool, withLyric: !!(options?.lyric || opts.sendLyric) })
         return
       }
-
-      const needTranscode =
-        cfg.forceTranscode ||
-        cfg.sendMode === 'buffer' ||
-        isLikelyWma(finalUrl) ||
-        (finalBr !== undefined && finalBr >= 320) // 高码率更建议走 buffer
-
-      let sentOk = false
-
-      try {
-        if (!needTranscode && cfg.sendMode === 'record') {
-          // 直链：快，但 wma/风控时可能失败
-          logger.info(`sending direct audio url to session: ${finalUrl}`)
-          await session.send(h.audio(finalUrl))
-          sentOk = true
-        } else {
-          // ✅ 稳定模式：下载 → ffmpeg 转码（根据配置）→ buffer 发送
-          logger.info(`starting download for transcode: ${finalUrl}`)
-          const raw = await httpGetBuffer(ctx, finalUrl, cfg)
-          logger.info(`download complete, ${raw.length} bytes, starting transcode format=${cfg.transcodeFormat}`)
-          try {
-            const { buffer: outBuf, mime } = await ffmpegTranscode(raw, cfg, cfg.transcodeFormat, finalBr)
-            logger.info(`transcode succeeded, mime=${mime}, bytes=${outBuf.length}`)
-            await session.send(h.audio(outBuf, mime))
-            sentOk = true
-          } catch (e: any) {
-            // 如果转码失败，尝试回退到 wav 以提高成功率
-            logger.warn(`transcode failed: ${e?.message || e}; falling back to wav`)
-            if ((e as any)?.stderr) logger.warn(`ffmpeg stderr: ${(e as any).stderr}`)
-            const wav = await ffmpegToWavBuffer(raw, cfg)
-            await session.send(h.audio(wav, 'audio/wav'))
-            sentOk = true
-          }
-        }
-      } catch (e: any) {
-        const msg = e?.message || String(e)
-        logger.warn(`send failed: ${msg}`)
-        if ((e as any)?.stderr) logger.warn(`ffmpeg stderr: ${(e as any).stderr}`)
-        // ✅ 给用户更明确提示：高码率 wma 说明
-        await session.send(
-          `获取/发送失败：\n` +
-          `1) 320k 以上常返回 wma，建议将 br 改为 192/128；\n` +
-          `2) 或开启【强制转码】并选择 buffer 发送（downloads+ffmpeg+silk/NapCat 转码更稳）。`
-        )
-      }
-
-      // 撤回逻辑（按你要的：仅成功后撤回）
-      if (!cfg.recallOnlyAfterSuccess || sentOk) {
-        if (cfg.recallMessages.includes('generationTip') && cfg.tipRecallSec > 0) {
-          ctx.setTimeout(() => safeRecall(session, tipIds), cfg.tipRecallSec * 1000)
-        }
-        if (cfg.recallMessages.includes('songList') && cfg.menuRecallSec > 0) {
-          if (!(cfg.keepMenuIfSendFailed && !sentOk)) {
-            ctx.setTimeout(() => safeRecall(session, st.menuMessageIds), cfg.menuRecallSec * 1000)
-          }
-        }
-      }
-
-      pending.delete(k)
-      return
     }
 
-    // 新搜索
-    const kw = input
-    if (!kw) return '请输入关键词。'
-
     const page = 1
     try {
-      const url = buildSearchUrl(cfg, kw, page)
-      const resp = await httpGetJson(ctx, url, cfg)
-      const items = normalizeSearchItems(resp)
+      const results = await searchSongs(ctx, opts, kw, page)
 
-      if (!items.length) {
+      if (!results.length) {
         return '没有搜索到结果。'
       }
 
-  const text = renderMenuText(cfg, kw, page, items)
+      // 本地分页：保留全部结果，只展示第一页
+      const allItems = opts.localPaging ? results : undefined
+      const items = allItems ? allItems.slice(0, opts.pageSize) : results
+
+  const text = await renderMenu(ctx, opts, kw, page, items, allItems?.length)
   const mid = await session.send(text)
   const menuIds: any[] = []
   if (mid !== null && mid !== undefined) menuIds.push(mid)
 
-      pending.set(k, {
+      openSession(k, {
         userId: session.userId!,
         channelId: session.channelId!,
         page,
         keyword: kw,
         items,
-        createdAt: Date.now(),
+        allItems,
+        config: opts,
+        options: musicOptions,
+        withLyric: !!(options?.lyric || opts.sendLyric),
+        state: 'menu',
+        session,
         menuMessageIds: menuIds,
       })
-
-      // 超时自动退出
-      ctx.setTimeout(() => {
-        const cur = pending.get(k)
-        if (!cur) return
-        if (Date.now() - cur.createdAt >= cfg.promptTimeoutSec * 1000) {
-          pending.delete(k)
-          session.send(cfg.promptTimeout).catch(() => {})
-        }
-      }, cfg.promptTimeoutSec * 1000)
-
     } catch (e: any) {
       logger.warn(`search failed: ${e?.message || e}`)
-      return cfg.getSongFailed
+      return opts.getSongFailed
     }
   })
+
+  // 歌单选择中按序号取当前页条目，否则按关键词搜索取第一首；失败时返回提示文字
+  async function findItem(session: Session, conf: Config, input: string): Promise<SearchItem | string> {
+    const st = pending.get(pendingKey(session, cfg))
+    const n = Number(input)
+    if (st && Number.isInteger(n)) return st.items[n - 1] ?? outOfRangeText(conf, n, st.items.length)
+    try {
+      return (await searchSongs(ctx, conf, input, 1))[0] ?? '没有搜索到结果。'
+    } catch (e: any) {
+      logger.warn(`search failed: ${e?.message || e}`)
+      return conf.getSongFailed
+    }
+  }
+
+  ctx.command(`${cfg.command}.lyric <keyword:text>`, '查询歌词')
+    .usage('在歌单选择中可直接输入序号，否则按关键词搜索并取第一首。')
+    .action(async ({ session }, keyword) => {
+      if (!session) return
+      const input = String(keyword ?? '').trim()
+      if (!input) return '请输入关键词或序号。'
+
+      const conf = pending.get(pendingKey(session, cfg))?.config ?? await resolveConfig(session)
+      const item = await findItem(session, conf, input)
+      if (typeof item === 'string') return item
+
+      await sendLyric(ctx, conf, session, item)
+    })
+
+  ctx.command(`${cfg.command}.file <keyword:text>`, '以音频文件发送歌曲（带标签与封面）')
+    .usage('在歌单选择中可直接输入序号，否则按关键词搜索并取第一首。')
+    .action(async ({ session }, keyword) => {
+      if (!session) return
+      const input = String(keyword ?? '').trim()
+      if (!input) return '请输入关键词或序号。'
+
+      const st = pending.get(pendingKey(session, cfg))
+      const conf = st?.config ?? await resolveConfig(session)
+      const item = await findItem(session, conf, input)
+      if (typeof item === 'string') return item
+
+      await playSong(ctx, conf, { ...st?.options, asFile: true }, session, item, { cache: audioCache, pool: transcodePool })
+    })
+
+  ctx.command(`${cfg.command}.add <keyword:text>`, '搜索并加入播放队列')
+    .action(async ({ session }, keyword) => {
+      if (!session) return
+      const input = String(keyword ?? '').trim()
+      if (!input) return '请输入关键词。'
+      const conf = await resolveConfig(session)
+      let item: SearchItem | undefined
+      try {
+        item = (await searchSongs(ctx, conf, input, 1))[0]
+      } catch (e: any) {
+        logger.warn(`search failed: ${e?.message || e}`)
+        return conf.getSongFailed
+      }
+      if (!item) return '没有搜索到结果。'
+      return enqueue(session, conf, {}, item)
+    })
+
+  ctx.command(`${cfg.command}.id <source:string> <id:string>`, '按歌曲 ID 直接点歌')
+    .option('lyric', '-l 同时发送歌词')
+    .usage(`音源：${SOURCE_VALUES.join('/')}`)
+    .example(`${cfg.command}.id netease 186016`)
+    .action(async ({ session, options }, source, id) => {
+      if (!session) return
+      if (!source || !id) return '请输入音源和歌曲 ID。'
+      if (!SOURCE_VALUES.includes(source as SourceValue)) return `不支持的音源：${source}`
+      const conf = await resolveConfig(session)
+      const item = await lookupSong(ctx, conf, source as SourceValue, id)
+      if (!item) return conf.getSongFailed
+      await playSong(ctx, conf, {}, session, item, { cache: audioCache, pool: transcodePool, withLyric: !!(options?.lyric || conf.sendLyric) })
+    })
+
+  ctx.command(`${cfg.command}.queue`, '查看播放队列')
+    .action(({ session }) => {
+      if (!session) return
+      const q = getQueue(session)
+      if (!q.current && !q.entries.length) return '播放队列为空。'
+      const lines: string[] = []
+      if (q.current) lines.push(`▶️ ${songLabel(q.current.item)}`)
+      q.entries.forEach((e, i) => lines.push(`${i + 1}. ${songLabel(e.item)}`))
+      return lines.join('\n')
+    })
+
+  ctx.command(`${cfg.command}.skip`, '跳过当前歌曲')
+    .action(({ session }) => {
+      if (!session) return
+      const q = getQueue(session)
+      if (!q.current) return '当前没有正在播放的歌曲。'
+      q.skip = true
+      return `已跳过：${songLabel(q.current.item)}`
+    })
+
+  ctx.command(`${cfg.command}.remove <index:posint>`, '从播放队列移除歌曲')
+    .action(({ session }, index) => {
+      if (!session) return
+      const q = getQueue(session)
+      if (!index || index > q.entries.length) return '序号错误。'
+      const [removed] = q.entries.splice(index - 1, 1)
+      return `已移除：${songLabel(removed.item)}`
+    })
+
+  ctx.command(`${cfg.command}.clear`, '清空播放队列')
+    .action(({ session }) => {
+      if (!session) return
+      const q = getQueue(session)
+      q.entries = []
+      if (q.current) q.skip = true
+      return '已清空播放队列。'
+    })
+
+  ctx.command(`${cfg.command}.cache`, '查看/清空音频缓存', { authority: cfg.settingsAuthority })
+    .option('clear', '-c 清空缓存')
+    .action(async ({ options }) => {
+      if (!audioCache) return '音频缓存未启用。'
+      if (options?.clear) {
+        await audioCache.clear()
+        return '已清空音频缓存。'
+      }
+      const st = await audioCache.stats()
+      return [
+        `缓存条目：${st.count}`,
+        `占用空间：${fmtBytes(st.size)} / ${cfg.cacheMaxMB} MB`,
+        `命中/未命中（本次启动）：${st.hits} / ${st.misses}`,
+        `有效期：${cfg.cacheTtlHours > 0 ? `${cfg.cacheTtlHours} 小时` : '不限'}`,
+      ].join('\n')
+    })
+
+  ctx.command(`${cfg.command}.mirrors`, '查看 API 镜像健康状态', { authority: cfg.settingsAuthority })
+    .action(() => renderMirrorHealth(cfg) || '未配置 API 镜像。')
+
+  ctx.command(`${cfg.command}.config [key:string] [value:text]`, '查看/修改本频道的点歌设置', { authority: cfg.settingsAuthority })
+    .option('guild', '-g 作用于整个群组（默认仅当前频道）')
+    .option('delete', '-d 删除该项设置（恢复继承）')
+    .usage(`可设置项：${Object.keys(SETTING_PARSERS).join(', ')}\n优先级：频道 > 群组 > 全局配置。`)
+    .example(`${cfg.command}.config sendMode buffer`)
+    .example(`${cfg.command}.config -g source tencent`)
+    .action(async ({ session, options }, key, value) => {
+      if (!session) return
+      if (!ctx.database) return '需要数据库服务才能保存频道设置。'
+
+      const guildId = settingsId(session, 'guild')
+      const channelId = settingsId(session, 'channel')
+      if (!key) {
+        const show = (title: string, o?: Partial<Config>) => {
+          const entries = Object.entries(o ?? {})
+          return `${title}：` + (entries.length
+            ? '\n' + entries.map(([k, v]) => `  ${k} = ${Array.isArray(v) ? v.join(',') : v}`).join('\n')
+            : '（无）')
+        }
+        const lines: string[] = []
+        if (guildId) lines.push(show('群组设置', await loadSettings(guildId)))
+        if (channelId) lines.push(show('频道设置', await loadSettings(channelId)))
+        return lines.join('\n')
+      }
+
+      if (!(key in SETTING_PARSERS)) return `未知设置项：${key}。可设置项：${Object.keys(SETTING_PARSERS).join(', ')}`
+      const id = options?.guild ? guildId : channelId
+      if (!id) return options?.guild ? '当前会话不在群组中。' : '当前会话不支持频道设置。'
+
+      const cur = { ...await loadSettings(id) }
+      if (options?.delete) {
+        delete cur[key as SettingKey]
+      } else {
+        const parsed = SETTING_PARSERS[key as SettingKey](String(value ?? '').trim())
+        if (parsed === undefined) return `设置值无效：${key} = ${value ?? ''}`
+        ;(cur as any)[key] = parsed
+      }
+      await ctx.database.upsert('music_to_voice_settings', [{ id, overrides: cur }])
+      settingsCache.set(id, cur)
+      return options?.delete ? `已删除 ${key}。` : `已设置 ${key} = ${cur[key as SettingKey]}。`
+    })
 }
@@ -0,0 +1,61 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { Config, createAudioCache } from '../src'
+
+let dir: string
+
+function createConfig(overrides: Partial<Config> = {}) {
+  return Config({ cacheMaxMB: 1, cacheTtlHours: 0, ...overrides } as Config)
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'music-cache-test-'))
+})
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+describe('audio cache', () => {
+  it('keeps every entry written in parallel on a cold cache', async () => {
+    const cache = createAudioCache(dir, createConfig())
+    await Promise.all([1, 2, 3, 4, 5].map(i => cache.set(`k${i}`, Buffer.from(`v${i}`), 'audio/aac')))
+
+    expect((await cache.stats()).count).toBe(5)
+    const index = JSON.parse(await readFile(join(dir, 'index.json'), 'utf8'))
+    expect(Object.keys(index).sort()).toEqual(['k1', 'k2', 'k3', 'k4', 'k5'])
+
+    // 重启后从 index.json 读回
+    const reloaded = createAudioCache(dir, createConfig())
+    expect((await reloaded.get('k3'))?.buffer.toString()).toBe('v3')
+  })
+
+  it('removes audio files missing from the index on load', async () => {
+    await writeFile(join(dir, 'orphan.bin'), Buffer.alloc(16))
+    await writeFile(join(dir, 'index.json'), '{}')
+    const cache = createAudioCache(dir, createConfig())
+
+    expect(await cache.get('missing')).toBeUndefined()
+    expect(await readdir(dir)).toEqual(['index.json'])
+  })
+
+  it('evicts the least recently used entries over the size cap', async () => {
+    const cache = createAudioCache(dir, createConfig())
+    const half = Buffer.alloc(400 * 1024)
+    // 访问时间按毫秒记录，间隔一下避免同一毫秒内的先后无法区分
+    const tick = () => new Promise(resolve => setTimeout(resolve, 5))
+    await cache.set('a', half, 'audio/aac')
+    await tick()
+    await cache.set('b', half, 'audio/aac')
+    await tick()
+    await cache.get('a')
+    await tick()
+    await cache.set('c', half, 'audio/aac')
+
+    expect(await cache.get('b')).toBeUndefined()
+    expect(await cache.get('a')).toBeDefined()
+    expect((await readdir(dir)).filter(f => f.endsWith('.bin'))).toHaveLength(2)
+  })
+})
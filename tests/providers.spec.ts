@@ -0,0 +1,170 @@
+import { createServer, Server } from 'node:http'
+import { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { Config, createGdProvider, createMetingProvider, createNeteaseProvider } from '../src'
+
+// 本地 mock 服务：按路径 + 查询参数返回固定数据，并记录收到的请求
+const requests: URL[] = []
+let server: Server
+let origin: string
+
+function reply(url: URL): any {
+  const q = Object.fromEntries(url.searchParams)
+  switch (url.pathname) {
+    case '/api.php':
+      if (q.types === 'search') return [{ id: 186016, name: '晴天', artist: ['周杰伦'], pic_id: 'p1', lyric_id: 186016, source: q.source }]
+      if (q.types === 'url') return { url: `${origin}/audio/${q.id}-${q.br}.mp3`, br: Number(q.br) }
+      if (q.types === 'lyric') return { lyric: '[00:01.00]故事的小黄花', tlyric: '' }
+      if (q.types === 'pic') return { url: `${origin}/cover/${q.id}-${q.size}.jpg` }
+      break
+    case '/ncm/cloudsearch':
+      return { result: { songs: [{ id: 186016, name: '晴天', ar: [{ name: '周杰伦' }], al: { name: '叶惠美', picUrl: `${origin}/al.jpg` }, dt: 269000 }] } }
+    case '/ncm/song/url':
+      return { data: [{ id: Number(q.id), url: `${origin}/audio/${q.id}-${q.br}.flac` }] }
+    case '/ncm/lyric':
+      return { lrc: { lyric: '[00:01.00]故事的小黄花' }, tlyric: { lyric: '[00:01.00]translated' } }
+    case '/ncm/song/detail':
+      return { songs: [{ id: Number(q.ids), name: '晴天', ar: [{ name: '周杰伦' }], al: { name: '叶惠美', picUrl: `${origin}/al.jpg` }, dt: 269000 }] }
+    case '/meting/':
+      if (q.type === 'search' || q.type === 'song') {
+        const id = q.type === 'song' ? q.id : '186016'
+        return [{
+          name: '晴天',
+          artist: '周杰伦',
+          url: `${origin}/meting/?server=${q.server}&type=url&id=${id}`,
+          pic: `${origin}/meting/?server=${q.server}&type=pic&id=${id}`,
+          lrc: `${origin}/meting/?server=${q.server}&type=lrc&id=${id}`,
+        }]
+      }
+      if (q.type === 'lrc') return '[00:01.00]故事的小黄花'
+      break
+  }
+}
+
+const http = {
+  async json(url: string) {
+    const res = await fetch(url)
+    if (!res.ok) throw new Error(`HTTP ${res.status}`)
+    return await res.json()
+  },
+  async text(url: string) {
+    return await (await fetch(url)).text()
+  },
+}
+
+function createConfig(overrides: Partial<Config> = {}) {
+  return Config({
+    apiBase: [`${origin}/api.php`],
+    neteaseApiBase: `${origin}/ncm`,
+    metingApiBase: `${origin}/meting/`,
+    searchCount: 5,
+    ...overrides,
+  } as Config)
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url!, origin)
+    requests.push(url)
+    const body = reply(url)
+    if (body === undefined) {
+      res.writeHead(404).end()
+      return
+    }
+    res.writeHead(200, { 'content-type': typeof body === 'string' ? 'text/plain' : 'application/json' })
+    res.end(typeof body === 'string' ? body : JSON.stringify(body))
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  requests.length = 0
+})
+
+describe('gd provider', () => {
+  it('searches with the GD query shape', async () => {
+    const provider = createGdProvider(createConfig(), http)
+    const items = await provider.search('晴天', 2, 'tencent')
+    expect(items).toEqual([{ id: 186016, name: '晴天', artist: ['周杰伦'], pic_id: 'p1', lyric_id: 186016, source: 'tencent' }])
+    expect(Object.fromEntries(requests[0].searchParams)).toEqual({ types: 'search', source: 'tencent', name: '晴天', count: '5', pages: '2' })
+  })
+
+  it('resolves the url from the item source', async () => {
+    const provider = createGdProvider(createConfig(), http)
+    expect(await provider.getUrl({ id: 186016, source: 'kuwo' }, 192)).toBe(`${origin}/audio/186016-192.mp3`)
+    expect(requests[0].searchParams.get('source')).toBe('kuwo')
+    expect(await provider.getUrl({}, 192)).toBeUndefined()
+  })
+
+  it('fetches lyrics and covers', async () => {
+    const provider = createGdProvider(createConfig(), http)
+    expect(await provider.getLyric({ id: 1, lyric_id: 186016 })).toEqual({ lyric: '[00:01.00]故事的小黄花', tlyric: '' })
+    expect(requests[0].searchParams.get('id')).toBe('186016')
+    expect(await provider.getCover({ pic_id: 'p1' }, 300)).toBe(`${origin}/cover/p1-300.jpg`)
+    expect(await provider.getCover({ pic: 'https://img.test/a.jpg' }, 300)).toBe('https://img.test/a.jpg')
+    expect(requests).toHaveLength(2)
+  })
+
+  it('fails over to the next mirror', async () => {
+    const provider = createGdProvider(createConfig({ apiBase: [`${origin}/down.php`, `${origin}/api.php`] }), http)
+    expect(await provider.search('晴天', 1, 'netease')).toHaveLength(1)
+    expect(requests.map(u => u.pathname)).toEqual(['/down.php', '/api.php'])
+  })
+})
+
+describe('netease provider', () => {
+  it('searches through /cloudsearch', async () => {
+    const provider = createNeteaseProvider(createConfig(), http)
+    const items = await provider.search('晴天', 3, 'netease')
+    expect(items).toEqual([{ id: 186016, name: '晴天', artist: '周杰伦', album: '叶惠美', pic: `${origin}/al.jpg`, duration: 269000 }])
+    expect(Object.fromEntries(requests[0].searchParams)).toEqual({ keywords: '晴天', type: '1', limit: '5', offset: '10' })
+  })
+
+  it('maps lossless bitrates when resolving the url', async () => {
+    const provider = createNeteaseProvider(createConfig(), http)
+    expect(await provider.getUrl({ id: 186016 }, 999)).toBe(`${origin}/audio/186016-999000.flac`)
+    expect(await provider.getUrl({ id: 186016 }, 128)).toBe(`${origin}/audio/186016-128000.flac`)
+  })
+
+  it('fetches lyrics with translation', async () => {
+    const provider = createNeteaseProvider(createConfig(), http)
+    expect(await provider.getLyric({ id: 186016 })).toEqual({ lyric: '[00:01.00]故事的小黄花', tlyric: '[00:01.00]translated' })
+  })
+
+  it('looks up the cover and details by id', async () => {
+    const provider = createNeteaseProvider(createConfig(), http)
+    expect(await provider.getCover({ id: 186016 }, 300)).toBe(`${origin}/al.jpg?param=300y300`)
+    expect(requests[0].searchParams.get('ids')).toBe('186016')
+    expect(await provider.getDetail!('186016', 'netease')).toMatchObject({ id: 186016, name: '晴天', artist: '周杰伦', album: '叶惠美' })
+  })
+})
+
+describe('meting provider', () => {
+  it('searches and keeps the per-song api urls', async () => {
+    const provider = createMetingProvider(createConfig(), http)
+    const [item] = await provider.search('晴天', 1, 'tencent')
+    expect(item).toMatchObject({ id: '186016', name: '晴天', artist: '周杰伦' })
+    expect(Object.fromEntries(requests[0].searchParams)).toEqual({ server: 'tencent', type: 'search', id: '晴天' })
+    expect(await provider.search('晴天', 2, 'tencent')).toEqual([])
+
+    expect(await provider.getUrl(item, 320)).toBe(`${origin}/meting/?server=tencent&type=url&id=186016`)
+    expect(await provider.getCover(item, 300)).toBe(`${origin}/meting/?server=tencent&type=pic&id=186016`)
+  })
+
+  it('fetches the lyric text from the lrc url', async () => {
+    const provider = createMetingProvider(createConfig(), http)
+    const [item] = await provider.search('晴天', 1, 'netease')
+    expect(await provider.getLyric(item)).toEqual({ lyric: '[00:01.00]故事的小黄花' })
+    expect(await provider.getLyric({ id: 1 })).toBeUndefined()
+  })
+
+  it('looks up a song by id', async () => {
+    const provider = createMetingProvider(createConfig(), http)
+    expect(await provider.getDetail!('42', 'kugou')).toMatchObject({ id: '42', name: '晴天', url: `${origin}/meting/?server=kugou&type=url&id=42` })
+  })
+})
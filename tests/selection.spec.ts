@@ -0,0 +1,324 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Context, Session } from 'koishi'
+import { Config, createSelectionSessions, safeRecall } from '../src'
+
+const API = 'https://api.test/api.php'
+
+// 伪造的 GD API：每页 3 首，id 连续编号
+function createContext(onRequest?: (url: URL) => void | Promise<void>) {
+  const requests: URL[] = []
+  const ctx = {
+    http: {
+      async get(raw: string) {
+        const url = new URL(raw)
+        requests.push(url)
+        await onRequest?.(url)
+        const types = url.searchParams.get('types')
+        if (types === 'search') {
+          const page = Number(url.searchParams.get('pages'))
+          return [1, 2, 3].map((i) => {
+            const id = (page - 1) * 3 + i
+            return { id, name: `歌曲${id}`, artist: `歌手${id}`, source: 'netease', duration: 200 }
+          })
+        }
+        if (types === 'url') return { url: `https://cdn.test/${url.searchParams.get('id')}.mp3`, br: 128 }
+        throw new Error(`unexpected request: ${raw}`)
+      },
+    },
+    setTimeout(callback: () => void, ms: number) {
+      const timer = setTimeout(callback, ms)
+      return () => clearTimeout(timer)
+    },
+  } as unknown as Context
+  return { ctx, requests }
+}
+
+function createSession() {
+  const sent: string[] = []
+  const deleted: string[] = []
+  let seq = 0
+  const session = {
+    platform: 'test',
+    userId: 'u1',
+    channelId: 'c1',
+    guildId: 'g1',
+    async send(content: any) {
+      sent.push(String(content))
+      return [`m${++seq}`]
+    },
+    bot: {
+      async deleteMessage(channelId: string, id: string) {
+        deleted.push(id)
+      },
+    },
+  } as unknown as Session
+  return { session, sent, deleted }
+}
+
+function createConfig(overrides: Partial<Config> = {}) {
+  return Config({
+    apiBase: [API],
+    searchCount: 3,
+    searchCacheTtlSec: 0,
+    br: 128,
+    sendMode: 'record',
+    promptTimeoutSec: 30,
+    selectionRetries: 1,
+    requestRetry: 0,
+    probeDuration: false,
+    platformProfiles: [],
+    ...overrides,
+  } as Config)
+}
+
+function createState(config: Config, session: Session, items: any[]): any {
+  return {
+    userId: 'u1',
+    channelId: 'c1',
+    page: 1,
+    keyword: '测试',
+    items,
+    config,
+    options: {},
+    withLyric: false,
+    state: 'menu',
+    session,
+    menuMessageIds: [['m0']],
+  }
+}
+
+const page1 = [1, 2, 3].map(id => ({ id, name: `歌曲${id}`, artist: `歌手${id}`, source: 'netease', duration: 200 }))
+
+describe('selection session', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('goes through menu → resolving → sending → done', async () => {
+    const { session, sent } = createSession()
+    const states: string[] = []
+    let st: any
+    const { ctx } = createContext((url) => {
+      if (url.searchParams.get('types') === 'url') states.push(st.state)
+    })
+    const sessions = createSelectionSessions(ctx, { enqueue: () => '' })
+    st = createState(createConfig(), session, page1)
+    sessions.openSession('k', st)
+    states.push(st.state)
+
+    const origSend = session.send
+    session.send = async (content: any) => {
+      states.push(st.state)
+      return origSend.call(session, content)
+    }
+
+    expect(await sessions.handleInput(session, 'k', st, '2', false)).toBe(true)
+    states.push(st.state)
+
+    expect(states).toEqual(['menu', 'resolving', 'resolving', 'sending', 'done'])
+    expect(sent).toEqual(['生成语音中…', '<audio src="https://cdn.test/2.mp3"/>'])
+    expect(sessions.pending.has('k')).toBe(false)
+  })
+
+  it('ignores new input while a song is being resolved', async () => {
+    const { session } = createSession()
+    let st: any
+    let sessions: ReturnType<typeof createSelectionSessions>
+    const during: boolean[] = []
+    const { ctx } = createContext(async (url) => {
+      if (url.searchParams.get('types') === 'url') during.push(await sessions.handleInput(session, 'k', st, '3', true))
+    })
+    sessions = createSelectionSessions(ctx, { enqueue: () => '' })
+    st = createState(createConfig(), session, page1)
+    sessions.openSession('k', st)
+
+    await sessions.handleInput(session, 'k', st, '1', true)
+    expect(during).toEqual([false])
+  })
+
+  it('sends several picks in order', async () => {
+    const { session, sent } = createSession()
+    const { ctx, requests } = createContext()
+    const sessions = createSelectionSessions(ctx, { enqueue: () => '' })
+    const st = createState(createConfig(), session, page1)
+    sessions.openSession('k', st)
+
+    await sessions.handleSelection(session, 'k', st, [3, 1])
+    const ids = requests.filter(u => u.searchParams.get('types') === 'url').map(u => u.searchParams.get('id'))
+    expect(ids).toEqual(['3', '1'])
+    expect(sent.filter(x => x.startsWith('<audio'))).toEqual([
+      '<audio src="https://cdn.test/3.mp3"/>',
+      '<audio src="https://cdn.test/1.mp3"/>',
+    ])
+    expect(st.state).toBe('done')
+  })
+
+  it('flips pages through the search API', async () => {
+    const { session, sent } = createSession()
+    const { ctx, requests } = createContext()
+    const sessions = createSelectionSessions(ctx, { enqueue: () => '' })
+    const st = createState(createConfig(), session, page1)
+    sessions.openSession('k', st)
+
+    expect(await sessions.handleInput(session, 'k', st, '下一页', false)).toBe(true)
+    expect(requests.map(u => u.searchParams.get('pages'))).toEqual(['2'])
+    expect(st.page).toBe(2)
+    expect(st.items.map((it: any) => it.id)).toEqual([4, 5, 6])
+    expect(st.menuMessageIds).toEqual([['m1']])
+    expect(sent[0]).toContain('1. 歌曲4 - 歌手4')
+
+    await sessions.showPage(session, st, 1)
+    expect(st.page).toBe(1)
+    expect(st.state).toBe('menu')
+  })
+
+  it('pages locally without requests', async () => {
+    const { session, sent } = createSession()
+    const { ctx, requests } = createContext()
+    const sessions = createSelectionSessions(ctx, { enqueue: () => '' })
+    const st = createState(createConfig({ localPaging: true, pageSize: 2 }), session, page1.slice(0, 2))
+    st.allItems = page1
+    sessions.openSession('k', st)
+
+    await sessions.showPage(session, st, 2)
+    expect(st.items).toEqual([page1[2]])
+    await sessions.showPage(session, st, 3)
+    expect(sent[1]).toBe('已经是最后一页了（共 2 页）。')
+    expect(st.page).toBe(2)
+    expect(requests).toEqual([])
+  })
+
+  it('resets the idle timer on every interaction', async () => {
+    const { session, sent } = createSession()
+    const { ctx } = createContext()
+    const sessions = createSelectionSessions(ctx, { enqueue: () => '' })
+    const st = createState(createConfig(), session, page1)
+    sessions.openSession('k', st)
+
+    await vi.advanceTimersByTimeAsync(20_000)
+    await sessions.handleInput(session, 'k', st, '下一页', false)
+    await vi.advanceTimersByTimeAsync(20_000)
+    expect(sessions.pending.get('k')).toBe(st)
+    expect(st.state).toBe('menu')
+
+    await vi.advanceTimersByTimeAsync(10_000)
+    expect(sessions.pending.has('k')).toBe(false)
+    expect(st.state).toBe('done')
+    expect(sent.at(-1)).toBe('输入超时，已取消点歌。')
+  })
+
+  it('re-prompts on unrecognized input and exits after the retries', async () => {
+    const { session, sent } = createSession()
+    const { ctx } = createContext()
+    const sessions = createSelectionSessions(ctx, { enqueue: () => '' })
+    const st = createState(createConfig(), session, page1)
+    sessions.openSession('k', st)
+
+    expect(await sessions.handleInput(session, 'k', st, '9', true)).toBe(true)
+    expect(sent).toEqual(['没有找到对应的歌曲，请重新输入序号或歌名（还可重试 1 次）。'])
+    expect(st.state).toBe('menu')
+
+    await sessions.rejectSelection(session, 'k', st)
+    expect(sent.at(-1)).toBe('序号输入错误，已退出歌曲选择。')
+    expect(sessions.pending.has('k')).toBe(false)
+  })
+
+  it('leaves ordinary chat alone', async () => {
+    const { session, sent } = createSession()
+    const { ctx } = createContext()
+    const sessions = createSelectionSessions(ctx, { enqueue: () => '' })
+    const st = createState(createConfig(), session, [{ id: 1, name: '好久不见', artist: '陈奕迅' }, { id: 2, name: '晴天', artist: '周杰伦' }])
+    sessions.openSession('k', st)
+
+    for (const text of ['好', '天', '2024']) {
+      expect(await sessions.handleInput(session, 'k', st, text, false)).toBe(false)
+    }
+    expect(sent).toEqual([])
+    expect(st.retries).toBeUndefined()
+    expect(st.state).toBe('menu')
+  })
+
+  it('exits on an exit command', async () => {
+    const { session, sent } = createSession()
+    const { ctx } = createContext()
+    const sessions = createSelectionSessions(ctx, { enqueue: () => '' })
+    const st = createState(createConfig(), session, page1)
+    sessions.openSession('k', st)
+
+    expect(await sessions.handleInput(session, 'k', st, '不听了', false)).toBe(true)
+    expect(sent).toEqual(['已退出歌曲选择。'])
+    expect(sessions.pending.has('k')).toBe(false)
+  })
+
+  it('adds to the queue with +N and keeps the menu open', async () => {
+    const { session, sent } = createSession()
+    const { ctx } = createContext()
+    const enqueue = vi.fn(() => '已加入播放队列')
+    const sessions = createSelectionSessions(ctx, { enqueue })
+    const st = createState(createConfig(), session, page1)
+    sessions.openSession('k', st)
+
+    await sessions.handleInput(session, 'k', st, '+2', false)
+    expect(enqueue).toHaveBeenCalledWith(session, st.config, st.options, page1[1])
+    expect(sent).toEqual(['已加入播放队列'])
+    expect(st.state).toBe('menu')
+  })
+
+  it('keeps the menu open when +N is out of range', async () => {
+    const { session, sent } = createSession()
+    const { ctx } = createContext()
+    const enqueue = vi.fn(() => '')
+    const sessions = createSelectionSessions(ctx, { enqueue })
+    const st = createState(createConfig(), session, page1)
+    sessions.openSession('k', st)
+
+    await sessions.handleInput(session, 'k', st, '+9', false)
+    expect(enqueue).not.toHaveBeenCalled()
+    expect(sent).toEqual(['没有第 9 首，当前歌单共 3 首。'])
+    expect(st.state).toBe('menu')
+    expect(sessions.pending.has('k')).toBe(true)
+  })
+
+  it('recalls the menu and tip after sending', async () => {
+    const { session, deleted } = createSession()
+    const { ctx } = createContext()
+    const sessions = createSelectionSessions(ctx, { enqueue: () => '' })
+    const st = createState(createConfig({ menuRecallSec: 5, tipRecallSec: 5 }), session, page1)
+    sessions.openSession('k', st)
+
+    await sessions.handleInput(session, 'k', st, '1', true)
+    await vi.advanceTimersByTimeAsync(5_000)
+    expect(deleted.sort()).toEqual(['m0', 'm1'])
+  })
+
+  it('swaps the tip for the queue position when the transcode is queued', async () => {
+    const { session, sent, deleted } = createSession()
+    const { ctx } = createContext()
+    const pool = {
+      async run(key: string, channel: string, task: () => Promise<any>, onQueued?: (position: number) => void) {
+        onQueued?.(2)
+        return [{ buffer: Buffer.from('voice'), mime: 'audio/aac' }]
+      },
+    }
+    const sessions = createSelectionSessions(ctx, { pool, enqueue: () => '' })
+    const st = createState(createConfig({ sendMode: 'buffer', maxDownloadMB: 0 }), session, page1)
+    sessions.openSession('k', st)
+
+    await sessions.handleInput(session, 'k', st, '1', true)
+    expect(sent.slice(0, 2)).toEqual(['生成语音中…', '排队中，第 2 位…'])
+    expect(sent[2]).toMatch(/^<audio /)
+    expect(deleted).toEqual(['m1'])
+  })
+})
+
+describe('safeRecall', () => {
+  it('flattens the id arrays returned by session.send', async () => {
+    const { session, deleted } = createSession()
+    await safeRecall(session, [['a', 'b'], 'c', undefined, [['d']]])
+    expect(deleted).toEqual(['a', 'b', 'c', 'd'])
+  })
+})
@@ -0,0 +1,14 @@
+import { createRequire } from 'node:module'
+import { defineConfig } from 'vitest/config'
+
+const require = createRequire(import.meta.url)
+
+export default defineConfig({
+  resolve: {
+    // koishi 的 ESM 入口在 Node 下无法直接加载，测试中改用 CommonJS 入口
+    alias: { koishi: require.resolve('koishi') },
+  },
+  test: {
+    include: ['tests/**/*.spec.ts'],
+  },
+})